@@ -1,13 +1,59 @@
-import React, { useState, Suspense } from 'react';
+import React, { useState, useEffect, useCallback, useRef, Suspense } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { Experience } from './components/Experience';
 import { UIOverlay } from './components/UIOverlay';
 import { GestureController } from './components/GestureController';
-import { TreeState } from './types';
+import { QualityMonitor } from './components/QualityMonitor';
+import { PosterCapture, PosterRenderer } from './components/PosterCapture';
+import { SceneAnnouncer } from './components/SceneAnnouncer';
+import { CameraShot, FairyLights, GestureAction, GestureCalibration, Greeting, PosterMode, QualityMode, ShowAction, ShowScript, ThemePalette, TreeState, WinterScene } from './types';
+import { usePhotoAlbum } from './hooks/usePhotoAlbum';
+import { buildShareUrl, readSceneConfigFromUrl } from './utils/sceneConfig';
+import { DEFAULT_QUALITY_TIER, QUALITY_PRESETS } from './utils/quality';
+import {
+  createRasterFormation,
+  LOGO_FORMATION_ID,
+  hasFormation,
+  registerFormation,
+  stepFormationId,
+  TEXT_FORMATION_ID
+} from './formations';
+import { useFormation } from './hooks/useFormation';
+import { rasterizeImage, rasterizeText } from './utils/rasterize';
+import { DEFAULT_CAMERA_SHOT, DEMO_SHOW_SCRIPT, parseShowScript, serializeShowScript } from './utils/showScript';
+import { useShowPlayer } from './hooks/useShowPlayer';
+import { useShowRecorder } from './hooks/useShowRecorder';
+import { useVideoRecorder } from './hooks/useVideoRecorder';
+import { useReducedMotion } from './hooks/useReducedMotion';
+import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
+import { useSlideshow } from './hooks/useSlideshow';
+import { useSwipe } from './hooks/useSwipe';
+import { useGestureBindings } from './hooks/useGestureBindings';
+import { useGestureTuning } from './hooks/useGestureTuning';
+import { useHandSession } from './hooks/useHandSession';
+import { useAudio } from './hooks/useAudio';
+import { useSoundCues } from './hooks/useSoundCues';
+import { stepThemePreset } from './utils/themes';
+import { downloadBlob, toFileSlug } from './utils/download';
+import { canvasToPng, composePoster, getPosterRenderScale, PosterOptions } from './utils/poster';
+import { serializeHandRecording } from './utils/handRecording';
+import { InputSource, inputBus, useInputIntent, usePointerAttract } from './input';
 
 function App() {
-  const [treeState, setTreeState] = useState<TreeState>(TreeState.CHAOS);
-  const [userPhotos, setUserPhotos] = useState<string[]>([]);
+  // Decoded once on boot; a shared link opens exactly the tree it was made from
+  const [sceneConfig, setSceneConfig] = useState(() => readSceneConfigFromUrl());
+  const [treeState, setTreeState] = useState<TreeState>(sceneConfig.initialState);
+  const [qualityMode, setQualityMode] = useState<QualityMode>('AUTO');
+  const [autoQualityTier, setAutoQualityTier] = useState(DEFAULT_QUALITY_TIER);
+  const qualityTier = qualityMode === 'AUTO' ? autoQualityTier : qualityMode;
+  const quality = QUALITY_PRESETS[qualityTier];
+
+  const { photos: userPhotos, addPhotos, removePhoto, clearPhotos, movePhoto, setCaption } = usePhotoAlbum();
+
+  // Track which photo is currently zoomed in
+  const [focusedPhotoIndex, setFocusedPhotoIndex] = useState<number | null>(null);
+  const [cameraShot, setCameraShot] = useState<CameraShot>(DEFAULT_CAMERA_SHOT);
+  const [reducedMotion, setReducedMotion] = useReducedMotion();
 
   const toggleState = () => {
     setTreeState((prev) => 
@@ -15,19 +61,351 @@ function App() {
     );
   };
 
+  useEffect(() => {
+    document.title = sceneConfig.greeting.title || 'Grand Luxury Christmas Tree';
+  }, [sceneConfig.greeting.title]);
+
+  const handleGreetingChange = (greeting: Greeting) => {
+    setSceneConfig(config => ({ ...config, greeting }));
+  };
+
+  // Links always open in the state the tree is in right now
+  const handleShare = async () => {
+    const url = buildShareUrl({ ...sceneConfig, initialState: treeState });
+    window.history.replaceState(null, '', url);
+    try {
+      await navigator.clipboard.writeText(url);
+      return true;
+    } catch (err) {
+      console.warn("Could not copy share link:", err);
+      return false;
+    }
+  };
+
+  // Picking a shape also assembles it, so the morph is visible straight away
+  const cycleFormation = useCallback((direction: 1 | -1) => {
+    setSceneConfig(config => ({ ...config, formation: stepFormationId(config.formation, direction) }));
+    setTreeState(TreeState.FORMED);
+  }, []);
+
+  // (Re)build the text formation whenever the spelled text changes, including from a shared link
+  const textContent = sceneConfig.text?.content;
+  const textFont = sceneConfig.text?.font;
+  useEffect(() => {
+    if (!textContent || !textFont || !textContent.trim()) return;
+    let cancelled = false;
+    rasterizeText(textContent, textFont)
+      .then(mask => {
+        if (cancelled) return;
+        const name = textContent.split('\n')[0].trim();
+        registerFormation(createRasterFormation(TEXT_FORMATION_ID, name, mask));
+      })
+      .catch(err => console.warn("Could not rasterize text:", err));
+    return () => { cancelled = true; };
+  }, [textContent, textFont]);
+
+  const handleSpellText = (content: string, font: string) => {
+    setSceneConfig(config => ({ ...config, text: { content, font }, formation: TEXT_FORMATION_ID }));
+    setTreeState(TreeState.FORMED);
+  };
+
+  // Logos stay local: image data is far too large for a share link
+  const handleLogoUpload = async (file: File) => {
+    try {
+      const mask = await rasterizeImage(file);
+      registerFormation(createRasterFormation(LOGO_FORMATION_ID, 'Logo', mask));
+      setSceneConfig(config => ({ ...config, formation: LOGO_FORMATION_ID }));
+      setTreeState(TreeState.FORMED);
+    } catch (err) {
+      console.warn("Could not use logo:", err);
+    }
+  };
+
+  const formation = useFormation(sceneConfig.formation);
+
+  const handleThemeChange = (theme: ThemePalette) => {
+    setSceneConfig(config => ({ ...config, theme }));
+  };
+
+  const handleLightsChange = (lights: FairyLights) => {
+    setSceneConfig(config => ({ ...config, lights }));
+  };
+
+  const handleWinterChange = (winter: WinterScene) => {
+    setSceneConfig(config => ({ ...config, winter }));
+  };
+
+  const spinTree = (velocity: number, source: InputSource) => {
+    inputBus.emit({ type: 'spin', velocity }, source);
+  };
+
+  // Whether a recorded drag is holding the tree, so stopping the show mid-drag can let go of it
+  const showGrabRef = useRef(false);
+
+  // Show mode drives the same state the buttons and gestures do, so a show can be taken over live
+  const applyShowAction = (action: ShowAction) => {
+    switch (action.type) {
+      case 'state':
+        setTreeState(action.state);
+        break;
+      case 'spin':
+        spinTree(action.velocity, 'show');
+        break;
+      case 'grab':
+        showGrabRef.current = action.active;
+        inputBus.emit({ type: 'grab', active: action.active, fling: action.fling }, 'show');
+        break;
+      case 'rotate':
+        inputBus.emit({ type: 'rotate', deltaY: action.deltaY, deltaX: action.deltaX }, 'show');
+        break;
+      case 'attract':
+        inputBus.emit({ type: 'attract', point: action.point }, 'show');
+        break;
+      case 'focus':
+        // A show recorded with more frames (or edited by hand) may name one this scene doesn't have
+        setFocusedPhotoIndex(action.index !== null && action.index < sceneConfig.counts.photos ? action.index : null);
+        break;
+      case 'theme':
+        handleThemeChange(action.palette);
+        break;
+      case 'formation':
+        if (hasFormation(action.id)) {
+          setSceneConfig(config => ({ ...config, formation: action.id }));
+        } else {
+          console.warn(`Show script uses unknown formation "${action.id}"`);
+        }
+        break;
+      case 'camera':
+        setCameraShot(action.shot);
+        break;
+    }
+  };
+
+  const [showScript, setShowScript] = useState<ShowScript>(DEMO_SHOW_SCRIPT);
+  const showPlayer = useShowPlayer(showScript, applyShowAction);
+
+  useEffect(() => {
+    if (showPlayer.isPlaying || !showGrabRef.current) return;
+    showGrabRef.current = false;
+    inputBus.emit({ type: 'grab', active: false, fling: true }, 'show');
+  }, [showPlayer.isPlaying]);
+  const showRecorder = useShowRecorder({ 
+    treeState, 
+    theme: sceneConfig.theme, 
+    formation: sceneConfig.formation, 
+    focusedPhotoIndex, 
+    cameraShot 
+  });
+
+  const toggleShowRecording = () => {
+    if (showRecorder.isRecording) {
+      setShowScript(showRecorder.stop());
+    } else {
+      showPlayer.pause();
+      showRecorder.start();
+    }
+  };
+
+  const handleShowScriptLoad = async (file: File) => {
+    try {
+      setShowScript(parseShowScript(JSON.parse(await file.text())));
+      return true;
+    } catch (err) {
+      console.warn("Could not load show script:", err);
+      return false;
+    }
+  };
+
+  const handleShowScriptDownload = () => {
+    const blob = new Blob([serializeShowScript(showScript)], { type: 'application/json' });
+    downloadBlob(blob, `${toFileSlug(showScript.name)}.json`);
+  };
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const videoRecorder = useVideoRecorder(canvasRef, treeState, setTreeState);
+
+  const handleVideoDownload = (video: Blob) => {
+    downloadBlob(video, `${toFileSlug(sceneConfig.greeting.title)}-${Date.now()}.webm`);
+  };
+
+  const posterRendererRef = useRef<PosterRenderer | null>(null);
+  const [posterMode, setPosterMode] = useState<PosterMode | null>(null);
+
+  const handleSavePoster = async (options: PosterOptions) => {
+    const renderer = posterRendererRef.current;
+    const canvas = canvasRef.current;
+    if (!renderer || !canvas) return false;
+
+    const scale = getPosterRenderScale(options.size, options.supersample, renderer.maxDimension);
+    const renderWidth = Math.round(options.size.width * scale);
+    const renderHeight = Math.round(options.size.height * scale);
+    setPosterMode({ pointScale: renderHeight / canvas.height, transparent: options.transparent });
+
+    try {
+      const render = await renderer.render(renderWidth, renderHeight);
+      const title = options.includeTitle
+        ? { title: sceneConfig.greeting.title, subtitle: sceneConfig.greeting.subtitle, color: sceneConfig.theme.gold }
+        : null;
+      const poster = composePoster(render, options, title);
+      downloadBlob(await canvasToPng(poster), `${toFileSlug(sceneConfig.greeting.title)}-poster-${options.size.id}.png`);
+      return true;
+    } catch (err) {
+      console.warn("Could not render poster:", err);
+      return false;
+    } finally {
+      setPosterMode(null);
+    }
+  };
+
+  // Steps the zoomed photo through every frame on the tree, wrapping at either end
+  const stepFocusedPhoto = (direction: 1 | -1) => {
+    const count = sceneConfig.counts.photos;
+    setFocusedPhotoIndex(index => {
+      if (count === 0) return null;
+      if (index === null) return direction > 0 ? 0 : count - 1;
+      return (index + direction + count) % count;
+    });
+  };
+
+  const slideshow = useSlideshow(focusedPhotoIndex, () => stepFocusedPhoto(1));
+
+  // Starts from the photo already in focus, or the first one
+  const startSlideshow = () => {
+    if (sceneConfig.counts.photos === 0) return;
+    setFocusedPhotoIndex(index => index ?? 0);
+    setTreeState(TreeState.FORMED);
+    slideshow.play();
+  };
+
+  // Closing the photo, by any means, also ends the slideshow
+  useEffect(() => {
+    if (focusedPhotoIndex === null) slideshow.pause();
+  }, [focusedPhotoIndex]);
+
+  // Tree state and photo focus intents, whichever device they come from
+  useInputIntent('setState', ({ state }) => {
+    if (state === 'toggle') toggleState();
+    else setTreeState(state);
+  });
+  useInputIntent('focus', ({ index }) => {
+    if (index === null || index < sceneConfig.counts.photos) setFocusedPhotoIndex(index);
+  });
+  useInputIntent('focusStep', ({ step }) => stepFocusedPhoto(step));
+
+  useSwipe(focusedPhotoIndex !== null);
+  usePointerAttract();
+
+  const focusPhotoShortcuts = Object.fromEntries(
+    Array.from({ length: 9 }, (_, i) => [String(i + 1), () => inputBus.emit({ type: 'focus', index: i }, 'keyboard')])
+  );
+
+  const stepOrSpin = (step: 1 | -1) => {
+    if (focusedPhotoIndex !== null) inputBus.emit({ type: 'focusStep', step }, 'keyboard');
+    else spinTree(step * 0.03, 'keyboard');
+  };
+
+  // Music, effects, and the levels behind the beat-reactive visuals
+  const audio = useAudio();
+  useSoundCues(audio.playEffect, treeState, focusedPhotoIndex);
+
+  useKeyboardShortcuts({
+    ' ': () => inputBus.emit({ type: 'setState', state: 'toggle' }, 'keyboard'),
+    // Arrows page through photos while one is zoomed, and spin the tree otherwise
+    ArrowLeft: () => stepOrSpin(-1),
+    ArrowRight: () => stepOrSpin(1),
+    n: () => inputBus.emit({ type: 'focusStep', step: 1 }, 'keyboard'),
+    p: () => inputBus.emit({ type: 'focusStep', step: -1 }, 'keyboard'),
+    Escape: () => inputBus.emit({ type: 'focus', index: null }, 'keyboard'),
+    m: () => audio.toggleMuted(),
+    ...focusPhotoShortcuts
+  });
+
+  const [gestureBindings, setGestureBindings, resetGestureBindings] = useGestureBindings();
+  const [gestureTuning, setGestureTuning] = useGestureTuning();
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [calibrationFailed, setCalibrationFailed] = useState(false);
+
+  // A calibration that saw too little of the hand keeps the previous one
+  const handleCalibrated = (calibration: GestureCalibration | null) => {
+    setIsCalibrating(false);
+    setCalibrationFailed(!calibration);
+    if (calibration) setGestureTuning(tuning => ({ ...tuning, calibration }));
+  };
+
+  // How far the hand cursor is through a dwell-to-select, written by the scene and drawn by the cursor
+  const dwellProgressRef = useRef(0);
+
+  // Hand-tracking sessions for bug reports and camera-less demos
+  const handSession = useHandSession();
+
+  const handleStopHandRecording = () => {
+    const recording = handSession.stopRecording();
+    if (!recording) return;
+    const blob = new Blob([serializeHandRecording(recording)], { type: 'application/json' });
+    downloadBlob(blob, `hand-session-${Date.now()}.json`);
+  };
+
+  // Screenshots are posters at the canvas's own resolution, supersampled
+  const takeScreenshot = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    handleSavePoster({
+      size: { id: 'screenshot', label: 'Screenshot', width: canvas.width, height: canvas.height },
+      supersample: 2,
+      includeTitle: true,
+      transparent: false
+    });
+  };
+
+  const runGestureAction = (action: GestureAction) => {
+    switch (action) {
+      case 'scatter':
+        inputBus.emit({ type: 'setState', state: TreeState.CHAOS }, 'gesture');
+        break;
+      case 'assemble':
+        inputBus.emit({ type: 'setState', state: TreeState.FORMED }, 'gesture');
+        break;
+      case 'toggleState':
+        inputBus.emit({ type: 'setState', state: 'toggle' }, 'gesture');
+        break;
+      case 'nextShape':
+        cycleFormation(1);
+        break;
+      case 'previousShape':
+        cycleFormation(-1);
+        break;
+      case 'nextPhoto':
+        inputBus.emit({ type: 'focusStep', step: 1 }, 'gesture');
+        break;
+      case 'previousPhoto':
+        inputBus.emit({ type: 'focusStep', step: -1 }, 'gesture');
+        break;
+      case 'closePhoto':
+        inputBus.emit({ type: 'focus', index: null }, 'gesture');
+        break;
+      case 'toggleSlideshow':
+        if (slideshow.isPlaying) slideshow.pause();
+        else startSlideshow();
+        break;
+      case 'nextTheme':
+        handleThemeChange(stepThemePreset(sceneConfig.theme, 1).palette);
+        break;
+      case 'screenshot':
+        takeScreenshot();
+        break;
+      case 'toggleMusic':
+        audio.toggleMuted();
+        break;
+    }
+  };
+
   const handlePhotoUpload = (files: FileList | null) => {
     if (!files) return;
     
-    const newPhotos: string[] = [];
-    Array.from(files).forEach(file => {
-        if (file.type.startsWith('image/')) {
-            const url = URL.createObjectURL(file);
-            newPhotos.push(url);
-        }
-    });
+    const imageFiles = Array.from(files).filter(file => file.type.startsWith('image/'));
 
-    if (newPhotos.length > 0) {
-        setUserPhotos(newPhotos);
+    if (imageFiles.length > 0) {
+        addPhotos(imageFiles);
         // Automatically switch to FORMED state so user can see their photos
         setTreeState(TreeState.FORMED);
     }
@@ -38,12 +416,84 @@ function App() {
       <UIOverlay 
         state={treeState} 
         onToggle={toggleState} 
+        formationName={formation.name}
+        onCycleFormation={cycleFormation}
         onUpload={handlePhotoUpload}
+        onShare={handleShare}
+        greeting={sceneConfig.greeting}
+        onGreetingChange={handleGreetingChange}
+        theme={sceneConfig.theme}
+        onThemeChange={handleThemeChange}
+        lights={sceneConfig.lights}
+        onLightsChange={handleLightsChange}
+        winter={sceneConfig.winter}
+        onWinterChange={handleWinterChange}
+        sceneText={sceneConfig.text}
+        onSpellText={handleSpellText}
+        onLogoUpload={handleLogoUpload}
+        qualityMode={qualityMode}
+        qualityTier={qualityTier}
+        onQualityModeChange={setQualityMode}
+        photos={userPhotos}
+        onRemovePhoto={removePhoto}
+        onClearPhotos={clearPhotos}
+        onMovePhoto={movePhoto}
+        onCaptionChange={setCaption}
+        showScript={showScript}
+        showPlayer={showPlayer}
+        isShowRecording={showRecorder.isRecording}
+        onLoadShowScript={handleShowScriptLoad}
+        onLoadDemoShow={() => setShowScript(DEMO_SHOW_SCRIPT)}
+        onToggleShowRecording={toggleShowRecording}
+        onDownloadShow={handleShowScriptDownload}
+        videoRecorder={videoRecorder}
+        onDownloadVideo={handleVideoDownload}
+        onSavePoster={handleSavePoster}
+        reducedMotion={reducedMotion}
+        onReducedMotionChange={setReducedMotion}
+        focusedPhotoIndex={focusedPhotoIndex}
+        photoCount={sceneConfig.counts.photos}
+        onStepPhoto={stepFocusedPhoto}
+        onClosePhoto={() => setFocusedPhotoIndex(null)}
+        slideshow={slideshow}
+        onStartSlideshow={startSlideshow}
+        gestureBindings={gestureBindings}
+        onGestureBindingsChange={setGestureBindings}
+        onResetGestureBindings={resetGestureBindings}
+        gestureTuning={gestureTuning}
+        onGestureTuningChange={setGestureTuning}
+        isCalibrating={isCalibrating}
+        calibrationFailed={calibrationFailed}
+        onCalibrate={() => setIsCalibrating(calibrating => !calibrating)}
+        handSession={handSession}
+        onStopHandRecording={handleStopHandRecording}
+        audio={audio}
+      />
+      <SceneAnnouncer 
+        state={treeState} 
+        formationName={formation.name} 
+        focusedPhotoIndex={focusedPhotoIndex} 
+        photoCount={sceneConfig.counts.photos} 
+        userPhotos={userPhotos} 
+        reducedMotion={reducedMotion} 
+      />
+      <GestureController 
+        bindings={gestureBindings} 
+        onAction={runGestureAction} 
+        tuning={gestureTuning}
+        isCalibrating={isCalibrating}
+        onCalibrated={handleCalibrated}
+        isPhotoFocused={focusedPhotoIndex !== null}
+        replay={handSession.replay}
+        onRecordFrame={handSession.recordFrame}
+        dwellProgressRef={dwellProgressRef}
       />
-      <GestureController setTreeState={setTreeState} />
       
       <Canvas
-        dpr={[1, 2]} // Optimization for high DPI screens
+        ref={canvasRef}
+        role="img"
+        aria-label={`A ${formation.name} of glowing particles, ${treeState === TreeState.FORMED ? 'assembled' : 'scattered'}, decorated with ${sceneConfig.counts.photos} photo frames`}
+        dpr={quality.dpr} // Scaled by the quality tier; capped for high DPI screens
         gl={{ 
             antialias: false, 
             toneMapping: 3, // ACESFilmic
@@ -51,13 +501,33 @@ function App() {
         }}
       >
         <Suspense fallback={null}>
-          <Experience treeState={treeState} userPhotos={userPhotos} />
+          <Experience 
+            treeState={treeState} 
+            userPhotos={userPhotos} 
+            config={sceneConfig} 
+            quality={quality} 
+            cameraShot={cameraShot}
+            focusedPhotoIndex={focusedPhotoIndex}
+            posterMode={posterMode}
+            reducedMotion={reducedMotion}
+            faceFocusedPhoto={slideshow.isPlaying}
+            dwellMs={gestureTuning.dwellMs}
+            dwellProgressRef={dwellProgressRef}
+            audioLevels={audio.levels}
+            sampleAudio={audio.sample}
+          />
         </Suspense>
+        <QualityMonitor 
+          enabled={qualityMode === 'AUTO' && !posterMode} 
+          tier={autoQualityTier} 
+          onTierChange={setAutoQualityTier} 
+        />
+        <PosterCapture rendererRef={posterRendererRef} />
       </Canvas>
       
       {/* Loading overlay handled via Suspense fallback essentially, but simplified here */}
       <div className="absolute bottom-2 right-2 text-white/10 text-xs">
-        v1.2.0 | Grand Luxury Tree
+        {sceneConfig.greeting.footer}
       </div>
     </div>
   );
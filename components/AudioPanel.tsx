@@ -0,0 +1,109 @@
+import React, { useRef, useState } from 'react';
+import { AudioController } from '../hooks/useAudio';
+import { NO_TRACK_ID, SYNTH_SCORES, UPLOAD_TRACK_ID } from '../utils/audio';
+
+interface AudioPanelProps {
+  audio: AudioController;
+  onClose: () => void;
+}
+
+// Background music, volume and sound effects
+export const AudioPanel: React.FC<AudioPanelProps> = ({ audio, onClose }) => {
+  const trackInputRef = useRef<HTMLInputElement>(null);
+  const [uploadFailed, setUploadFailed] = useState(false);
+  const { settings } = audio;
+
+  return (
+    <div className="pointer-events-auto w-[min(90vw,24rem)] bg-black/70 backdrop-blur-md border border-white/10 rounded-xl p-4 shadow-[0_0_30px_rgba(255,215,0,0.15)]">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-[color:var(--accent)] text-sm uppercase tracking-widest transition-colors duration-1000">
+          Sound
+        </h3>
+        <button
+          onClick={onClose}
+          className="text-white/50 hover:text-white text-lg leading-none px-2"
+          aria-label="Close sound settings"
+        >
+          ×
+        </button>
+      </div>
+
+      {!audio.supported ? (
+        <p className="text-white/60 text-xs">This browser does not support Web Audio.</p>
+      ) : (
+        <>
+          <select
+            value={settings.trackId}
+            onChange={(e) => audio.selectTrack(e.target.value)}
+            className="w-full bg-black/50 border border-white/20 rounded p-2 text-white text-sm outline-none focus:border-[color:var(--accent)] mb-3"
+            aria-label="Background music"
+          >
+            <option value={NO_TRACK_ID}>No Music</option>
+            {SYNTH_SCORES.map(score => (
+              <option key={score.id} value={score.id}>{score.name}</option>
+            ))}
+            {audio.uploadedName && <option value={UPLOAD_TRACK_ID}>{audio.uploadedName}</option>}
+          </select>
+
+          <label className="flex flex-col gap-1 text-white/50 text-[10px] uppercase tracking-widest mb-3">
+            <span className="flex justify-between">
+              Volume
+              <span className="text-white/70 font-mono normal-case">{settings.muted ? 'muted' : `${Math.round(settings.volume * 100)}%`}</span>
+            </span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={settings.volume}
+              onChange={(e) => audio.setVolume(Number(e.target.value))}
+              className="accent-[color:var(--accent)]"
+            />
+          </label>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={audio.toggleMuted}
+              aria-pressed={settings.muted}
+              className="px-3 py-1 border border-white/10 text-white/70 text-[10px] uppercase tracking-widest hover:border-white/40 transition-colors"
+            >
+              {settings.muted ? 'Unmute' : 'Mute'}
+            </button>
+            <button
+              onClick={() => audio.setEffectsEnabled(!settings.effects)}
+              aria-pressed={settings.effects}
+              className="px-3 py-1 border border-white/10 text-white/70 text-[10px] uppercase tracking-widest hover:border-white/40 transition-colors"
+            >
+              {settings.effects ? 'Effects: On' : 'Effects: Off'}
+            </button>
+            <button
+              onClick={() => trackInputRef.current?.click()}
+              className="px-3 py-1 border border-white/10 text-white/70 text-[10px] uppercase tracking-widest hover:border-white/40 transition-colors"
+            >
+              Play Own Track
+            </button>
+            <input
+              ref={trackInputRef}
+              type="file"
+              accept="audio/*"
+              className="hidden"
+              onChange={async (e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) setUploadFailed(!(await audio.uploadTrack(file)));
+              }}
+            />
+          </div>
+          {uploadFailed && (
+            <p className="text-red-300/80 text-[10px] uppercase tracking-widest mt-2">
+              That file is not an audio track
+            </p>
+          )}
+          <p className="text-white/40 text-[10px] font-mono mt-3">
+            Your own track stays on this device and plays until the page is closed. Press M to mute.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import React, { useEffect, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { CameraShot } from '../types';
+import { useInputIntent } from '../input';
+
+interface CameraRigProps {
+  shot: CameraShot;
+}
+
+// The camera always frames the middle of the tree; shots only move it and change its lens
+const LOOK_AT = new THREE.Vector3(0, 2, 0);
+const DAMPING = 1.2;
+
+// Two-hand zoom range, as a multiple of the shot's distance from the tree
+const MIN_ZOOM = 0.45;
+const MAX_ZOOM = 1.6;
+
+// Glides the default camera toward the active shot, used by show mode camera moves
+export const CameraRig: React.FC<CameraRigProps> = ({ shot }) => {
+  const target = useRef(new THREE.Vector3());
+  const zoom = useRef(1);
+
+  // Hand zoom scales the distance to the tree; a new shot starts back at its own framing
+  useEffect(() => {
+    zoom.current = 1;
+  }, [shot]);
+
+  useInputIntent('zoom', ({ factor }) => {
+    zoom.current = THREE.MathUtils.clamp(zoom.current * factor, MIN_ZOOM, MAX_ZOOM);
+  });
+
+  useFrame(({ camera }, delta) => {
+    target.current.set(...shot.position).sub(LOOK_AT).multiplyScalar(zoom.current).add(LOOK_AT);
+    if (camera.position.distanceToSquared(target.current) > 1e-6) {
+      const ease = 1 - Math.exp(-DAMPING * delta);
+      camera.position.lerp(target.current, ease);
+      camera.lookAt(LOOK_AT);
+    }
+
+    if (camera instanceof THREE.PerspectiveCamera && Math.abs(camera.fov - shot.fov) > 0.01) {
+      camera.fov = THREE.MathUtils.damp(camera.fov, shot.fov, DAMPING, delta);
+      camera.updateProjectionMatrix();
+    }
+  });
+
+  return null;
+};
@@ -1,99 +1,107 @@
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useRef } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
 import { Foliage } from './Foliage';
 import { Ornaments } from './Ornaments';
 import { Ribbon } from './Ribbon';
+import { FairyLights } from './FairyLights';
 import { PhotoFrames } from './PhotoFrames';
-import { TreeState } from '../types';
+import { AudioLevels, SceneConfig, TreeState, UserPhoto } from '../types';
+import { useColorFade } from '../hooks/useColorFade';
+import { Formation, FORMATION_MORPH_SPEED } from '../formations';
+import { useFormation } from '../hooks/useFormation';
+import { getPointerSource, inputBus, useInputIntent, usePointerDrag } from '../input';
 
 interface ChristmasTreeProps {
   state: TreeState;
-  userPhotos: string[];
+  userPhotos: UserPhoto[];
+  config: SceneConfig;
+  focusedPhotoIndex: number | null;
+  pointScale?: number;
+  reducedMotion?: boolean;
+  faceFocusedPhoto?: boolean; // Slideshow mode: turn the focused frame's home spot towards the camera
+  dwellMs?: number;
+  dwellProgressRef?: React.MutableRefObject<number>;
+  audioLevels?: AudioLevels;
 }
 
-export const ChristmasTree: React.FC<ChristmasTreeProps> = ({ state, userPhotos }) => {
+// Furthest the two-hand gesture can roll the tree either way, in radians
+const MAX_TILT = 0.6;
+
+export const ChristmasTree: React.FC<ChristmasTreeProps> = ({ 
+  state, 
+  userPhotos, 
+  config, 
+  focusedPhotoIndex, 
+  pointScale = 1,
+  reducedMotion = false,
+  faceFocusedPhoto = false,
+  dwellMs = 0,
+  dwellProgressRef,
+  audioLevels
+}) => {
   const groupRef = useRef<THREE.Group>(null);
   
   // Physics Refs
   const velocityY = useRef(0);
   const velocityX = useRef(0); // Added vertical rotation velocity
   const isDragging = useRef(false);
-  const lastPointer = useRef({ x: 0, y: 0 });
   
   // Shared progress ref to coordinate all sub-components
   const progressRef = useRef(0); 
 
-  // Track which photo is currently zoomed in
-  const [focusedPhotoIndex, setFocusedPhotoIndex] = useState<number | null>(null);
-
-  // Handlers for "Swipe to Spin" (Mouse/Touch)
-  const handlePointerDown = (e: any) => {
-    // If we clicked a photo, let the photo component handle it first
-    // We check this by seeing if the event default was prevented in the child
-    if (e.defaultPrevented) return;
-
-    e.stopPropagation();
-    isDragging.current = true;
-    lastPointer.current = {
-        x: e.clientX || (e.touches && e.touches[0].clientX),
-        y: e.clientY || (e.touches && e.touches[0].clientY)
-    };
-    velocityY.current = 0;
-    velocityX.current = 0;
-  };
-
-  const handlePointerMove = (e: any) => {
-    if (!isDragging.current) return;
-    
-    const clientX = e.clientX || (e.touches && e.touches[0].clientX);
-    const clientY = e.clientY || (e.touches && e.touches[0].clientY);
-    
-    const deltaX = clientX - lastPointer.current.x;
-    const deltaY = clientY - lastPointer.current.y;
-    
-    lastPointer.current = { x: clientX, y: clientY };
-    
-    // Smooth out the input force slightly
-    const sensitivity = 0.0025; 
-    
-    // Always allow Horizontal spin (Y-axis)
-    velocityY.current = deltaX * sensitivity;
-
-    // Only allow Vertical tumbling (X-axis) if in CHAOS mode
-    // This prevents the tree from looking "tipped over" when formed
-    if (state === TreeState.CHAOS) {
-        velocityX.current = deltaY * sensitivity;
+  const formation = useFormation(config.formation);
+
+  // Resting position of the focused frame in tree space, reported by PhotoFrames
+  const focusAnchorRef = useRef<THREE.Vector3 | null>(null);
+
+  // Mouse/touch drags on the tree; while a photo is zoomed, horizontal drags swipe between photos instead
+  const pointerDrag = usePointerDrag(focusedPhotoIndex === null);
+
+  // Two-hand tilt (roll), eased towards by the frame loop and released back to upright
+  const tiltTarget = useRef(0);
+
+  useInputIntent('spin', ({ velocity }) => {
+    if (!isDragging.current) {
+        velocityY.current += velocity;
     }
-    
-    if (groupRef.current) {
-        groupRef.current.rotation.y += velocityY.current;
-        groupRef.current.rotation.x += velocityX.current;
+  });
+
+  // Grabs (pointer drag or pinch) turn the tree directly, with the last movement kept as inertia
+  useInputIntent('grab', ({ active, fling }) => {
+    isDragging.current = active;
+    if (active || !fling) {
+        velocityY.current = 0;
+        velocityX.current = 0;
     }
-  };
+  });
 
-  const handlePointerUp = () => {
-    isDragging.current = false;
-  };
+  useInputIntent('rotate', ({ deltaY, deltaX }) => {
+    if (!groupRef.current) return;
+    velocityY.current = deltaY;
+    groupRef.current.rotation.y += deltaY;
+    // Only allow vertical tumbling in CHAOS mode, so the formed tree never looks "tipped over"
+    if (state === TreeState.CHAOS) {
+        velocityX.current = deltaX;
+        groupRef.current.rotation.x += deltaX;
+    }
+  });
 
-  // Listen for Gesture Control Events
-  useEffect(() => {
-    const onSpin = (e: CustomEvent) => {
-        if (!isDragging.current) {
-            velocityY.current += e.detail.velocity;
-        }
-    };
-    
-    window.addEventListener('tree-spin', onSpin as any);
-    return () => window.removeEventListener('tree-spin', onSpin as any);
-  }, []);
+  useInputIntent('tilt', ({ angle }) => {
+    tiltTarget.current = THREE.MathUtils.clamp(angle, -MAX_TILT, MAX_TILT);
+  });
 
   useFrame((_, delta) => {
     // 1. Logic for Progress Transition
     const target = state === TreeState.FORMED ? 1 : 0;
     progressRef.current = THREE.MathUtils.damp(progressRef.current, target, 2.0, delta);
 
-    // 2. Physics Rotation
+    // 2. Tilt
+    if (groupRef.current) {
+        groupRef.current.rotation.z = THREE.MathUtils.damp(groupRef.current.rotation.z, tiltTarget.current, 6, delta);
+    }
+
+    // 3. Physics Rotation
     if (groupRef.current && !isDragging.current) {
         groupRef.current.rotation.y += velocityY.current;
         groupRef.current.rotation.x += velocityX.current;
@@ -107,14 +115,27 @@ export const ChristmasTree: React.FC<ChristmasTreeProps> = ({ state, userPhotos
         if (Math.abs(velocityY.current) < 0.0001) velocityY.current = 0;
         if (Math.abs(velocityX.current) < 0.0001) velocityX.current = 0;
         
-        // Idle spin
+        // Idle spin (reduced-motion mode keeps the tree still unless the user spins it)
         if (Math.abs(velocityY.current) < 0.001 && Math.abs(velocityX.current) < 0.001) {
              // Gentle idle rotation
              if (state === TreeState.FORMED) {
-                 groupRef.current.rotation.y += 0.001;
+                 const anchor = focusAnchorRef.current;
+                 if (faceFocusedPhoto && anchor && !formation.flat) {
+                     // Rotation that brings the anchor round to the front (+Z), taking the shortest way
+                     const facing = -Math.atan2(anchor.x, anchor.z);
+                     const current = groupRef.current.rotation.y;
+                     const delta = THREE.MathUtils.euclideanModulo(facing - current + Math.PI, Math.PI * 2) - Math.PI;
+                     groupRef.current.rotation.y = current + delta * 0.04;
+                 } else if (formation.flat) {
+                     // Flat shapes only read from the front: ease back to the nearest front-facing turn
+                     const facing = Math.round(groupRef.current.rotation.y / (Math.PI * 2)) * Math.PI * 2;
+                     groupRef.current.rotation.y = THREE.MathUtils.lerp(groupRef.current.rotation.y, facing, 0.03);
+                 } else if (!reducedMotion) {
+                     groupRef.current.rotation.y += 0.001;
+                 }
                  // Re-center X rotation when formed
                  groupRef.current.rotation.x = THREE.MathUtils.lerp(groupRef.current.rotation.x, 0, 0.05);
-             } else {
+             } else if (!reducedMotion) {
                  // Chaos drift
                  groupRef.current.rotation.y += 0.0005; 
                  groupRef.current.rotation.x += 0.0003; 
@@ -123,38 +144,33 @@ export const ChristmasTree: React.FC<ChristmasTreeProps> = ({ state, userPhotos
     }
   });
 
-  useEffect(() => {
-    window.addEventListener('mouseup', handlePointerUp);
-    window.addEventListener('touchend', handlePointerUp);
-    return () => {
-        window.removeEventListener('mouseup', handlePointerUp);
-        window.removeEventListener('touchend', handlePointerUp);
-    }
-  }, []);
-
   // Handler to deselect photo if clicking background
-  const onBackgroundClick = (e: any) => {
+  const onBackgroundClick = (e: MouseEvent) => {
       // Only deselect if we aren't dragging and we didn't just click a photo
       if (!isDragging.current && focusedPhotoIndex !== null) {
-         setFocusedPhotoIndex(null);
+         inputBus.emit({ type: 'focus', index: null }, getPointerSource(e as PointerEvent));
       }
   }
 
   return (
     <group 
         ref={groupRef} 
-        onPointerDown={handlePointerDown}
-        onPointerMove={handlePointerMove}
-        onPointerUp={handlePointerUp}
-        onPointerLeave={handlePointerUp}
+        {...pointerDrag}
         onPointerMissed={onBackgroundClick} // Handle clicking empty space
     >
       <TreeComponents 
         progressRef={progressRef} 
         state={state} 
         userPhotos={userPhotos} 
+        config={config}
+        formation={formation}
+        pointScale={pointScale}
+        focusAnchorRef={focusAnchorRef}
         focusedIndex={focusedPhotoIndex}
-        setFocusedIndex={setFocusedPhotoIndex}
+        dwellMs={dwellMs}
+        dwellProgressRef={dwellProgressRef}
+        audioLevels={audioLevels}
+        reducedMotion={reducedMotion}
         parentGroup={groupRef} // Pass ref down so children can calculate world positions
       />
     </group>
@@ -166,48 +182,124 @@ const TreeComponents = ({
     progressRef, 
     state,
     userPhotos,
+    config,
+    formation,
+    pointScale,
+    focusAnchorRef,
     focusedIndex,
-    setFocusedIndex,
+    dwellMs,
+    dwellProgressRef,
+    audioLevels,
+    reducedMotion,
     parentGroup
 }: { 
     progressRef: React.MutableRefObject<number>, 
     state: TreeState,
-    userPhotos: string[],
+    userPhotos: UserPhoto[],
+    config: SceneConfig,
+    formation: Formation,
+    pointScale: number,
+    focusAnchorRef: React.MutableRefObject<THREE.Vector3 | null>,
     focusedIndex: number | null,
-    setFocusedIndex: (i: number | null) => void,
+    dwellMs: number,
+    dwellProgressRef?: React.MutableRefObject<number>,
+    audioLevels?: AudioLevels,
+    reducedMotion: boolean,
     parentGroup: React.RefObject<THREE.Group | null>
 }) => {
     return (
         <>
-            <Foliage progressRef={progressRef} />
-            <Ornaments progressRef={progressRef} />
-            <Ribbon progressRef={progressRef} state={state} />
+            <Foliage 
+                progressRef={progressRef} 
+                count={config.counts.foliage} 
+                color={config.theme.emerald} 
+                seed={config.seed} 
+                formation={formation}
+                pointScale={pointScale}
+                audioLevels={audioLevels}
+            />
+            <Ornaments 
+                progressRef={progressRef} 
+                count={config.counts.ornaments} 
+                theme={config.theme} 
+                seed={config.seed} 
+                formation={formation}
+            />
+            <Ribbon progressRef={progressRef} state={state} theme={config.theme} enabled={formation.ribbon} animate={!reducedMotion} />
+            <FairyLights 
+                progressRef={progressRef} 
+                count={config.counts.lights} 
+                settings={config.lights} 
+                theme={config.theme} 
+                seed={config.seed} 
+                enabled={formation.ribbon}
+                animate={!reducedMotion}
+            />
             <PhotoFrames 
                 progressRef={progressRef} 
                 userPhotos={userPhotos} 
                 focusedIndex={focusedIndex}
-                setFocusedIndex={setFocusedIndex}
                 parentGroup={parentGroup}
+                count={config.counts.photos}
+                seed={config.seed}
+                formation={formation}
+                focusAnchorRef={focusAnchorRef}
+                dwellMs={dwellMs}
+                dwellProgressRef={dwellProgressRef}
             />
-            <Star progressRef={progressRef} />
+            <Star progressRef={progressRef} color={config.theme.goldHighlight} target={formation.star} audioLevels={audioLevels} animate={!reducedMotion} />
         </>
     )
 }
 
-const Star = ({ progressRef }: { progressRef: React.MutableRefObject<number> }) => {
+const Star = ({ 
+    progressRef, 
+    color, 
+    target,
+    audioLevels,
+    animate
+}: { 
+    progressRef: React.MutableRefObject<number>, 
+    color: string, 
+    target: THREE.Vector3 | null,
+    audioLevels?: AudioLevels,
+    animate: boolean // Off in reduced-motion mode: the star stops turning
+}) => {
     const ref = useRef<THREE.Mesh>(null);
-    useFrame(() => {
+    const materialRef = useRef<THREE.MeshStandardMaterial>(null);
+    const fadedColor = useColorFade(color);
+
+    // Eased resting point and visibility, so the star glides between formations
+    // and shrinks away for shapes without a topper
+    const restPos = useRef(new THREE.Vector3(0, 7.5, 0));
+    const presence = useRef(target ? 1 : 0);
+
+    useFrame((_, delta) => {
+        const ease = 1 - Math.exp(-FORMATION_MORPH_SPEED * delta);
+        if (target) restPos.current.lerp(target, ease);
+        presence.current = THREE.MathUtils.damp(presence.current, target ? 1 : 0, FORMATION_MORPH_SPEED * 2, delta);
+
+        if (materialRef.current) {
+            materialRef.current.color.copy(fadedColor);
+            materialRef.current.emissive.copy(fadedColor);
+            // Flares on every beat of the music
+            materialRef.current.emissiveIntensity = 2 + (audioLevels?.beat ?? 0) * 4;
+        }
         if(ref.current) {
             const p = progressRef.current;
-            ref.current.position.y = THREE.MathUtils.lerp(15, 7.5, p);
-            ref.current.scale.setScalar(p); 
-            ref.current.rotation.y += 0.01;
+            ref.current.position.set(
+                restPos.current.x,
+                THREE.MathUtils.lerp(15, restPos.current.y, p),
+                restPos.current.z
+            );
+            ref.current.scale.setScalar(p * presence.current); 
+            if (animate) ref.current.rotation.y += 0.01;
         }
     })
     return (
         <mesh ref={ref}>
             <octahedronGeometry args={[0.8, 0]} />
-            <meshStandardMaterial color="#FFD700" emissive="#FFD700" emissiveIntensity={2} toneMapped={false} />
+            <meshStandardMaterial ref={materialRef} emissiveIntensity={2} toneMapped={false} />
         </mesh>
     )
 }
\ No newline at end of file
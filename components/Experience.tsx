@@ -1,19 +1,77 @@
-import React from 'react';
+import React, { useMemo, useRef } from 'react';
 import { Environment, PerspectiveCamera, Stars } from '@react-three/drei';
 import { EffectComposer, Bloom, Vignette, Noise } from '@react-three/postprocessing';
 import { ChristmasTree } from './ChristmasTree';
 import { MagicalDust } from './MagicalDust';
-import { TreeState } from '../types';
+import { CameraRig } from './CameraRig';
+import { Snowfall } from './Snowfall';
+import { WinterGround } from './WinterGround';
+import { useFrame } from '@react-three/fiber';
+import { BloomEffect } from 'postprocessing';
+import { AudioLevels, CameraShot, CONSTANTS, PosterMode, QualitySettings, SceneConfig, TreeState, UserPhoto } from '../types';
+import { scaleCount } from '../utils/quality';
+
+// Bloom at silence; loudness adds to it
+const BLOOM_INTENSITY = 1.5;
+
+// Just below the foot of the tree, which sits 7 units under the raised group's origin
+const FLOOR_Y = -4.3;
 
 interface ExperienceProps {
   treeState: TreeState;
-  userPhotos: string[];
+  userPhotos: UserPhoto[];
+  config: SceneConfig;
+  quality: QualitySettings;
+  cameraShot: CameraShot;
+  focusedPhotoIndex: number | null;
+  posterMode?: PosterMode | null;
+  reducedMotion?: boolean;
+  faceFocusedPhoto?: boolean;
+  dwellMs?: number;
+  dwellProgressRef?: React.MutableRefObject<number>;
+  audioLevels?: AudioLevels;
+  sampleAudio?: (delta: number) => void;
 }
 
-export const Experience: React.FC<ExperienceProps> = ({ treeState, userPhotos }) => {
+export const Experience: React.FC<ExperienceProps> = ({ 
+  treeState, 
+  userPhotos, 
+  config, 
+  quality, 
+  cameraShot, 
+  focusedPhotoIndex, 
+  posterMode = null,
+  reducedMotion = false,
+  faceFocusedPhoto = false,
+  dwellMs = 0,
+  dwellProgressRef,
+  audioLevels,
+  sampleAudio
+}) => {
+  // The quality tier thins out the particle systems without touching the designed layout
+  const scaledConfig = useMemo<SceneConfig>(() => ({
+    ...config,
+    counts: {
+      ...config.counts,
+      foliage: scaleCount(config.counts.foliage, quality),
+      dust: scaleCount(config.counts.dust, quality)
+    }
+  }), [config, quality]);
+
+  // Beat-reactive visuals flash, so reduced-motion mode keeps the scene steady; posters ignore the music
+  const reactiveLevels = reducedMotion || posterMode ? undefined : audioLevels;
+  const bloomRef = useRef<BloomEffect>(null);
+
+  // Runs before the scene's own frame callbacks, so they all see this frame's levels
+  useFrame((_, delta) => {
+    sampleAudio?.(delta);
+    if (bloomRef.current) bloomRef.current.intensity = BLOOM_INTENSITY + (reactiveLevels?.level ?? 0) * 1.5;
+  }, -1);
+
   return (
     <>
       <PerspectiveCamera makeDefault position={[0, 2, 22]} fov={50} />
+      <CameraRig shot={cameraShot} />
       
       {/* Cinematic Lighting */}
       <ambientLight intensity={0.2} color="#001100" />
@@ -29,24 +87,67 @@ export const Experience: React.FC<ExperienceProps> = ({ treeState, userPhotos })
       <pointLight position={[10, -5, 10]} intensity={1} color="#00ff00" distance={20} />
 
       <Environment preset="lobby" background={false} />
-      <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={1} />
+      {!posterMode?.transparent && <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={1} />}
 
       {/* Raised y position to 2.8 for better framing */}
       <group position={[0, 2.8, 0]}>
-        <ChristmasTree state={treeState} userPhotos={userPhotos} />
+        <ChristmasTree 
+          state={treeState} 
+          userPhotos={userPhotos} 
+          config={scaledConfig} 
+          focusedPhotoIndex={focusedPhotoIndex} 
+          pointScale={posterMode?.pointScale}
+          reducedMotion={reducedMotion}
+          faceFocusedPhoto={faceFocusedPhoto}
+          dwellMs={dwellMs}
+          dwellProgressRef={dwellProgressRef}
+          audioLevels={reactiveLevels}
+        />
       </group>
 
-      <MagicalDust />
+      <MagicalDust 
+        count={scaledConfig.counts.dust} 
+        color={config.theme.goldHighlight} 
+        seed={config.seed} 
+        size={quality.dustSize} 
+        turbulence={!reducedMotion}
+      />
+
+      {/* Winter layer; transparent posters keep only the tree opaque */}
+      {!posterMode?.transparent && (
+        <>
+          {config.winter.snowfall && (
+            <Snowfall 
+              count={scaleCount(CONSTANTS.SNOW_COUNT, quality)} 
+              seed={config.seed} 
+              wind={config.winter.wind} 
+              floorY={FLOOR_Y} 
+              pointScale={posterMode?.pointScale}
+              turbulence={!reducedMotion}
+            />
+          )}
+          <WinterGround 
+            ground={config.winter.ground} 
+            y={FLOOR_Y} 
+            snowing={config.winter.snowfall} 
+            seed={config.seed} 
+            reflectionResolution={quality.reflectionResolution} 
+            floorPasses={quality.floorPasses} 
+          />
+        </>
+      )}
 
       <EffectComposer enableNormalPass={false}>
         <Bloom 
+            ref={bloomRef}
             luminanceThreshold={0.85} 
             luminanceSmoothing={0.1} 
-            height={300} 
-            intensity={1.5} 
+            height={quality.bloomHeight} 
+            intensity={BLOOM_INTENSITY} 
         />
-        <Noise opacity={0.05} />
-        <Vignette eskil={false} offset={0.1} darkness={1.1} />
+        {/* Film grain is per-pixel, so it would read very differently at print resolution; it also flickers */}
+        {quality.noise && !posterMode && !reducedMotion && <Noise opacity={0.05} />}
+        {!posterMode?.transparent && <Vignette eskil={false} offset={0.1} darkness={1.1} />}
       </EffectComposer>
     </>
   );
@@ -0,0 +1,132 @@
+import React, { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { CONSTANTS, FairyLights as FairyLightsSettings, THEME, ThemePalette } from '../types';
+import { createRandom, RandomFn, RANDOM_STREAMS } from '../utils/random';
+import { Bulb, BulbSample, DEFAULT_FAIRY_LIGHTS, LIGHT_COLOR_SETS, LIGHT_PATTERNS } from '../utils/fairyLights';
+import { useColorFade } from '../hooks/useColorFade';
+
+interface FairyLightsProps {
+  progressRef: React.MutableRefObject<number>;
+  count?: number;
+  settings?: FairyLightsSettings;
+  theme?: ThemePalette;
+  seed?: number;
+  // False for formations the strings don't suit; the bulbs then shrink away
+  enabled?: boolean;
+  // Freezes the pattern animation, e.g. for reduced motion
+  animate?: boolean;
+}
+
+const STRANDS = 3;
+const TURNS = 3.5;
+const BOTTOM_Y = -6.8;
+const TOP_Y = 6.2;
+
+// Bulbs only light once the tree is nearly assembled
+const LIGHT_UP_START = 0.8;
+// Unlit glass still catches a little colour; lit bulbs go past 1 so the bloom picks them up
+const UNLIT_GLOW = 0.12;
+const LIT_GLOW = 3;
+
+// Bulbs are dealt round-robin to the strings and spaced evenly along each helix
+export const generateFairyLights = (count: number, random: RandomFn = Math.random) => {
+  const bulbs: Bulb[] = [];
+  const chaos: THREE.Vector3[] = [];
+  const targets: THREE.Vector3[] = [];
+  const perStrand = Math.ceil(count / STRANDS);
+  const height = CONSTANTS.TREE_HEIGHT;
+
+  for (let i = 0; i < count; i++) {
+    const strand = i % STRANDS;
+    const along = perStrand > 1 ? Math.floor(i / STRANDS) / (perStrand - 1) : 0;
+
+    const y = THREE.MathUtils.lerp(BOTTOM_Y, TOP_Y, along);
+    // Just outside the foliage cone, with a slight droop between the branches holding the wire
+    const angle = along * Math.PI * 2 * TURNS + (strand / STRANDS) * Math.PI * 2;
+    const radius = (1 - (y + height / 2) / height) * CONSTANTS.TREE_RADIUS + 0.35 + Math.abs(Math.sin(angle * 3)) * 0.12;
+    targets.push(new THREE.Vector3(Math.cos(angle) * radius, y, Math.sin(angle) * radius));
+
+    // CHAOS POSITION (Random cloud, like the ornaments)
+    const chaosR = 10 + random() * 10;
+    const theta = random() * Math.PI * 2;
+    const phi = random() * Math.PI;
+    chaos.push(new THREE.Vector3(
+      chaosR * Math.sin(phi) * Math.cos(theta),
+      chaosR * Math.cos(phi),
+      chaosR * Math.sin(phi) * Math.sin(theta)
+    ));
+
+    bulbs.push({ strand, along, phase: random(), colorSlot: i });
+  }
+
+  return { bulbs, chaos, targets };
+};
+
+export const FairyLights: React.FC<FairyLightsProps> = ({
+  progressRef,
+  count = CONSTANTS.LIGHT_COUNT,
+  settings = DEFAULT_FAIRY_LIGHTS,
+  theme = THEME,
+  seed = 0,
+  enabled = true,
+  animate = true
+}) => {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const layout = useMemo(() => generateFairyLights(count, createRandom(seed, RANDOM_STREAMS.fairyLights)), [count, seed]);
+
+  const gold = useColorFade(theme.gold);
+  const goldHighlight = useColorFade(theme.goldHighlight);
+  const red = useColorFade(theme.red);
+  const fixedColors = useMemo(
+    () => LIGHT_COLOR_SETS[settings.colors].colors(theme).map(hex => new THREE.Color(hex)),
+    [settings.colors, theme]
+  );
+  // The theme set reads the cross-fading colours live; the others are fixed
+  const palette = settings.colors === 'theme' ? [goldHighlight, gold, red] : fixedColors;
+
+  const tempObj = useMemo(() => new THREE.Object3D(), []);
+  const tempColor = useMemo(() => new THREE.Color(), []);
+  const sample = useMemo<BulbSample>(() => ({ brightness: 1, hue: null }), []);
+  const shown = useRef(enabled ? 1 : 0);
+
+  useFrame((state, delta) => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    const progress = progressRef.current;
+    const time = animate ? state.clock.elapsedTime : 0;
+    const program = LIGHT_PATTERNS[settings.pattern].program;
+
+    shown.current += ((enabled ? 1 : 0) - shown.current) * Math.min(delta * 4, 1);
+    mesh.visible = shown.current > 0.01;
+    if (!mesh.visible) return;
+
+    const lit = THREE.MathUtils.smoothstep(progress, LIGHT_UP_START, 1);
+    const scale = THREE.MathUtils.lerp(0.7, 1, progress) * shown.current;
+
+    for (let i = 0; i < count; i++) {
+      const bulb = layout.bulbs[i];
+      tempObj.position.lerpVectors(layout.chaos[i], layout.targets[i], progress);
+      tempObj.scale.setScalar(scale);
+      tempObj.updateMatrix();
+      mesh.setMatrixAt(i, tempObj.matrix);
+
+      program(bulb, time, sample);
+      if (sample.hue !== null) tempColor.setHSL(sample.hue, 1, 0.55);
+      else tempColor.copy(palette[bulb.colorSlot % palette.length]);
+      tempColor.multiplyScalar(THREE.MathUtils.lerp(UNLIT_GLOW, LIT_GLOW * sample.brightness, lit));
+      mesh.setColorAt(i, tempColor);
+    }
+    mesh.instanceMatrix.needsUpdate = true;
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  });
+
+  if (count === 0) return null;
+
+  return (
+    <instancedMesh ref={meshRef} args={[undefined, undefined, count]}>
+      <sphereGeometry args={[0.09, 8, 8]} />
+      <meshBasicMaterial toneMapped={false} />
+    </instancedMesh>
+  );
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import { FairyLights, ThemePalette } from '../types';
+import { LIGHT_COLOR_IDS, LIGHT_COLOR_SETS, LIGHT_PATTERN_IDS, LIGHT_PATTERNS } from '../utils/fairyLights';
+
+interface FairyLightsPanelProps {
+  lights: FairyLights;
+  theme: ThemePalette;
+  onChange: (lights: FairyLights) => void;
+  onClose: () => void;
+}
+
+export const FairyLightsPanel: React.FC<FairyLightsPanelProps> = ({ lights, theme, onChange, onClose }) => {
+  return (
+    <div className="pointer-events-auto w-[min(90vw,28rem)] bg-black/70 backdrop-blur-md border border-white/10 rounded-xl p-4 shadow-[0_0_30px_rgba(255,215,0,0.15)]">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-[color:var(--accent)] text-sm uppercase tracking-widest transition-colors duration-1000">
+          Fairy Lights <span className="text-white/50 font-mono text-xs normal-case">— {LIGHT_PATTERNS[lights.pattern].label}</span>
+        </h3>
+        <button
+          onClick={onClose}
+          className="text-white/50 hover:text-white text-lg leading-none px-2"
+          aria-label="Close fairy lights"
+        >
+          ×
+        </button>
+      </div>
+
+      {/* Patterns */}
+      <div className="flex flex-wrap gap-2 mb-4">
+        {LIGHT_PATTERN_IDS.map(pattern => (
+          <button
+            key={pattern}
+            onClick={() => onChange({ ...lights, pattern })}
+            aria-pressed={lights.pattern === pattern}
+            className={`px-3 py-1 border text-[10px] uppercase tracking-widest transition-colors ${lights.pattern === pattern ? 'border-white/70 bg-white/10 text-white' : 'border-white/10 text-white/70 hover:border-white/40'}`}
+          >
+            {LIGHT_PATTERNS[pattern].label}
+          </button>
+        ))}
+      </div>
+
+      {/* Bulb colours */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {LIGHT_COLOR_IDS.map(colors => (
+          <button
+            key={colors}
+            onClick={() => onChange({ ...lights, colors })}
+            aria-pressed={lights.colors === colors}
+            className={`
+              flex flex-col items-center gap-2 p-2 rounded-lg border transition-all duration-300
+              ${lights.colors === colors ? 'border-white/70 bg-white/10' : 'border-white/10 hover:border-white/40'}
+            `}
+          >
+            <div className="flex -space-x-1">
+              {LIGHT_COLOR_SETS[colors].colors(theme).map((color, i) => (
+                <span
+                  key={i}
+                  className="w-4 h-4 rounded-full border border-black/50"
+                  style={{ backgroundColor: color, boxShadow: `0 0 6px ${color}` }}
+                />
+              ))}
+            </div>
+            <span className="text-white/80 text-[10px] uppercase tracking-widest">{LIGHT_COLOR_SETS[colors].label}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
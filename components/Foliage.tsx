@@ -1,32 +1,52 @@
-import React, { useMemo, useRef } from 'react';
+import React, { useLayoutEffect, useMemo, useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { CONSTANTS, THEME } from '../types';
+import { AudioLevels, CONSTANTS, THEME } from '../types';
+import { createFormationRandom, createRandom, RANDOM_STREAMS } from '../utils/random';
+import { DEFAULT_FORMATION_ID, Formation, FORMATION_MORPH_SPEED, getFormation } from '../formations';
+import { useColorFade } from '../hooks/useColorFade';
 
 interface FoliageProps {
   progressRef: React.MutableRefObject<number>;
+  count?: number;
+  color?: string;
+  seed?: number;
+  formation?: Formation;
+  pointScale?: number;
+  audioLevels?: AudioLevels; // Music beats briefly swell and brighten the needles
 }
 
 const FoliageShaderMaterial = {
   uniforms: {
     uProgress: { value: 0 },
+    uMorph: { value: 1 },
     uTime: { value: 0 },
+    uPointScale: { value: 1 },
+    uPulse: { value: 0 },
     uColor: { value: new THREE.Color(THEME.emerald) },
   },
   vertexShader: `
     uniform float uProgress;
+    uniform float uMorph;
     uniform float uTime;
+    uniform float uPointScale;
+    uniform float uPulse;
     attribute vec3 aChaosPos;
+    attribute vec3 aFromPos;
     attribute vec3 aTargetPos;
     attribute float aRandom;
     
     varying float vRandom;
+    varying float vPulse;
 
     void main() {
       vRandom = aRandom;
+      // Only some needles catch each beat, so the pulse sparkles instead of flashing the whole tree
+      vPulse = uPulse * step(0.5, fract(aRandom * 7.0));
       
-      // Interpolate between chaos and tree shape
-      vec3 pos = mix(aChaosPos, aTargetPos, uProgress);
+      // Morph between formations, then interpolate from chaos into that shape
+      vec3 formed = mix(aFromPos, aTargetPos, uMorph);
+      vec3 pos = mix(aChaosPos, formed, uProgress);
       
       // Add a little wind/breathing effect when formed
       float windIntensity = smoothstep(0.8, 1.0, uProgress);
@@ -40,12 +60,13 @@ const FoliageShaderMaterial = {
       gl_Position = projectionMatrix * mvPosition;
       
       // Size attenuation
-      gl_PointSize = (5.0 * aRandom + 3.0) * (20.0 / -mvPosition.z);
+      gl_PointSize = (5.0 * aRandom + 3.0) * (20.0 / -mvPosition.z) * uPointScale * (1.0 + vPulse * 0.5);
     }
   `,
   fragmentShader: `
     uniform vec3 uColor;
     varying float vRandom;
+    varying float vPulse;
     
     void main() {
       vec2 coord = gl_PointCoord - vec2(0.5);
@@ -54,60 +75,109 @@ const FoliageShaderMaterial = {
       vec3 finalColor = uColor + (vRandom * 0.2);
       float dist = length(coord);
       finalColor *= (1.2 - dist * 2.0);
+      finalColor *= 1.0 + vPulse * 0.8;
 
       gl_FragColor = vec4(finalColor, 1.0);
     }
   `
 };
 
-export const Foliage: React.FC<FoliageProps> = ({ progressRef }) => {
-  const count = CONSTANTS.FOLIAGE_COUNT;
+// Pure layout generator: the same count and seed always produce the same buffers.
+// Only the scattered cloud lives here; formed shapes come from the formation registry.
+export const generateFoliageLayout = (count: number, seed: number) => {
+  const random = createRandom(seed, RANDOM_STREAMS.foliage);
+  const chaosPositions = new Float32Array(count * 3);
+  const randoms = new Float32Array(count);
+
+  for (let i = 0; i < count; i++) {
+    const r = Math.cbrt(random()) * 18; 
+    const theta = random() * Math.PI * 2;
+    const phi = Math.acos((random() * 2) - 1);
+    chaosPositions[i * 3] = r * Math.sin(phi) * Math.cos(theta);
+    chaosPositions[i * 3 + 1] = r * Math.sin(phi) * Math.sin(theta);
+    chaosPositions[i * 3 + 2] = r * Math.cos(phi);
+
+    randoms[i] = random();
+  }
+  return { chaosPositions, randoms };
+};
+
+export const Foliage: React.FC<FoliageProps> = ({ 
+  progressRef, 
+  count = CONSTANTS.FOLIAGE_COUNT, 
+  color = THEME.emerald,
+  seed = 0,
+  formation = getFormation(DEFAULT_FORMATION_ID),
+  pointScale = 1,
+  audioLevels
+}) => {
   const shaderRef = useRef<THREE.ShaderMaterial>(null);
+  const geometryRef = useRef<THREE.BufferGeometry>(null);
+  const fadedColor = useColorFade(color);
 
-  const { chaosPositions, targetPositions, randoms } = useMemo(() => {
-    const chaosPositions = new Float32Array(count * 3);
-    const targetPositions = new Float32Array(count * 3);
-    const randoms = new Float32Array(count);
-    const radius = CONSTANTS.TREE_RADIUS;
-    const height = CONSTANTS.TREE_HEIGHT;
-
-    for (let i = 0; i < count; i++) {
-      // Chaos
-      const r = Math.cbrt(Math.random()) * 18; 
-      const theta = Math.random() * Math.PI * 2;
-      const phi = Math.acos((Math.random() * 2) - 1);
-      chaosPositions[i * 3] = r * Math.sin(phi) * Math.cos(theta);
-      chaosPositions[i * 3 + 1] = r * Math.sin(phi) * Math.sin(theta);
-      chaosPositions[i * 3 + 2] = r * Math.cos(phi);
-
-      // Target (Cone)
-      const h = Math.random(); 
-      const coneR = (1 - h) * radius;
-      const angle = Math.random() * Math.PI * 2;
-      const dist = Math.sqrt(Math.random()) * coneR;
-      
-      targetPositions[i * 3] = Math.cos(angle) * dist;
-      targetPositions[i * 3 + 1] = h * height - (height / 2);
-      targetPositions[i * 3 + 2] = Math.sin(angle) * dist;
+  const { chaosPositions, randoms } = useMemo(
+    () => generateFoliageLayout(count, seed), 
+    [count, seed]
+  );
 
-      randoms[i] = Math.random();
+  const formationTargets = useMemo(
+    () => formation.foliage(count, createFormationRandom(seed, formation.id, RANDOM_STREAMS.foliageTargets)),
+    [formation, count, seed]
+  );
+
+  // The shader blends aFromPos -> aTargetPos by uMorph; both buffers are re-allocated with count
+  const morphBuffers = useMemo(() => ({
+    from: new Float32Array(count * 3),
+    to: new Float32Array(count * 3),
+    initialized: false
+  }), [count]);
+  const morphRef = useRef(1);
+
+  useLayoutEffect(() => {
+    const { from, to } = morphBuffers;
+    if (!morphBuffers.initialized) {
+      from.set(formationTargets);
+      to.set(formationTargets);
+      morphBuffers.initialized = true;
+      morphRef.current = 1;
+    } else {
+      // Start the new morph from wherever the particles are now, even mid-morph
+      const morph = morphRef.current;
+      for (let i = 0; i < from.length; i++) {
+        from[i] += (to[i] - from[i]) * morph;
+      }
+      to.set(formationTargets);
+      morphRef.current = 0;
     }
-    return { chaosPositions, targetPositions, randoms };
-  }, [count]);
 
-  useFrame((state) => {
+    const geometry = geometryRef.current;
+    if (geometry) {
+      geometry.attributes.aFromPos.needsUpdate = true;
+      geometry.attributes.aTargetPos.needsUpdate = true;
+    }
+  }, [formationTargets, morphBuffers]);
+
+  useFrame((state, delta) => {
+    morphRef.current = THREE.MathUtils.damp(morphRef.current, 1, FORMATION_MORPH_SPEED, delta);
+
     if (shaderRef.current) {
       shaderRef.current.uniforms.uProgress.value = progressRef.current;
+      shaderRef.current.uniforms.uMorph.value = morphRef.current;
       shaderRef.current.uniforms.uTime.value = state.clock.elapsedTime;
+      shaderRef.current.uniforms.uPointScale.value = pointScale;
+      shaderRef.current.uniforms.uPulse.value = audioLevels?.beat ?? 0;
+      shaderRef.current.uniforms.uColor.value.copy(fadedColor);
     }
   });
 
   return (
     <points>
-      <bufferGeometry>
+      {/* Keyed by count so a quality change rebuilds the GPU buffers at the new size */}
+      <bufferGeometry key={count} ref={geometryRef}>
         <bufferAttribute attach="attributes-position" count={count} array={chaosPositions} itemSize={3} />
         <bufferAttribute attach="attributes-aChaosPos" count={count} array={chaosPositions} itemSize={3} />
-        <bufferAttribute attach="attributes-aTargetPos" count={count} array={targetPositions} itemSize={3} />
+        <bufferAttribute attach="attributes-aFromPos" count={count} array={morphBuffers.from} itemSize={3} />
+        <bufferAttribute attach="attributes-aTargetPos" count={count} array={morphBuffers.to} itemSize={3} />
         <bufferAttribute attach="attributes-aRandom" count={count} array={randoms} itemSize={1} />
       </bufferGeometry>
       <shaderMaterial ref={shaderRef} args={[FoliageShaderMaterial]} transparent={false} />
@@ -0,0 +1,144 @@
+import React from 'react';
+import { GestureAction, GestureBindings, GestureName, GestureTuning } from '../types';
+import {
+  GESTURE_ACTION_LABELS,
+  GESTURE_ACTIONS,
+  GESTURE_LABELS,
+  GESTURE_NAMES,
+  MAX_GESTURE_THRESHOLD,
+  MIN_GESTURE_THRESHOLD
+} from '../utils/gestures';
+
+interface GestureBindingsPanelProps {
+  bindings: GestureBindings;
+  onChange: (bindings: GestureBindings) => void;
+  onReset: () => void;
+  tuning: GestureTuning;
+  onTuningChange: (tuning: GestureTuning) => void;
+  isCalibrating: boolean;
+  calibrationFailed: boolean;
+  onCalibrate: () => void;
+  onClose: () => void;
+}
+
+// Timing controls, with the range each one allows
+const TIMING_FIELDS: { key: 'holdFrames' | 'holdMs' | 'cooldownMs' | 'detectionConfidence' | 'dwellMs'; label: string; min: number; max: number; step: number; format: (v: number) => string }[] = [
+  { key: 'holdFrames', label: 'Hold Frames', min: 1, max: 15, step: 1, format: v => `${v}` },
+  { key: 'holdMs', label: 'Hold Time', min: 0, max: 1000, step: 50, format: v => `${v}ms` },
+  { key: 'cooldownMs', label: 'Cooldown', min: 0, max: 3000, step: 100, format: v => `${v}ms` },
+  { key: 'detectionConfidence', label: 'Hand Detection', min: 0.1, max: 0.9, step: 0.05, format: v => `${Math.round(v * 100)}%` },
+  { key: 'dwellMs', label: 'Dwell to Select', min: 0, max: 3000, step: 100, format: v => v === 0 ? 'Off' : `${(v / 1000).toFixed(1)}s` }
+];
+
+// Table for choosing what each hand sign does and how confident the recognizer must be
+export const GestureBindingsPanel: React.FC<GestureBindingsPanelProps> = ({ 
+  bindings, 
+  onChange, 
+  onReset, 
+  tuning, 
+  onTuningChange, 
+  isCalibrating, 
+  calibrationFailed, 
+  onCalibrate, 
+  onClose 
+}) => {
+  const update = (name: GestureName, changes: Partial<{ action: GestureAction; threshold: number }>) => {
+    onChange({ ...bindings, [name]: { ...bindings[name], ...changes } });
+  };
+
+  return (
+    <div className="pointer-events-auto w-[min(90vw,32rem)] bg-black/70 backdrop-blur-md border border-white/10 rounded-xl p-4 shadow-[0_0_30px_rgba(255,215,0,0.15)]">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-[color:var(--accent)] text-sm uppercase tracking-widest transition-colors duration-1000">
+          Gesture Bindings
+        </h3>
+        <button 
+          onClick={onClose} 
+          className="text-white/50 hover:text-white text-lg leading-none px-2"
+          aria-label="Close gesture bindings"
+        >
+          ×
+        </button>
+      </div>
+
+      <div className="grid grid-cols-[auto_1fr_auto] items-center gap-x-3 gap-y-2 mb-3">
+        <span className="text-white/40 text-[10px] uppercase tracking-widest">Gesture</span>
+        <span className="text-white/40 text-[10px] uppercase tracking-widest">Action</span>
+        <span className="text-white/40 text-[10px] uppercase tracking-widest">Confidence</span>
+        {GESTURE_NAMES.map(name => (
+          <React.Fragment key={name}>
+            <span className="text-white/80 text-xs whitespace-nowrap">
+              <span className="mr-1" aria-hidden>{GESTURE_LABELS[name].icon}</span>
+              {GESTURE_LABELS[name].label}
+            </span>
+            <select
+              value={bindings[name].action}
+              onChange={(e) => update(name, { action: e.target.value as GestureAction })}
+              className="bg-black/50 border border-white/20 rounded px-1 py-1 text-white text-xs outline-none focus:border-[color:var(--accent)]"
+              aria-label={`Action for ${GESTURE_LABELS[name].label}`}
+            >
+              {GESTURE_ACTIONS.map(action => (
+                <option key={action} value={action}>{GESTURE_ACTION_LABELS[action]}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2">
+              <input
+                type="range"
+                min={MIN_GESTURE_THRESHOLD}
+                max={MAX_GESTURE_THRESHOLD}
+                step={0.05}
+                value={bindings[name].threshold}
+                disabled={bindings[name].action === 'none'}
+                onChange={(e) => update(name, { threshold: Number(e.target.value) })}
+                className="w-20 accent-[color:var(--accent)] disabled:opacity-40"
+                aria-label={`Confidence threshold for ${GESTURE_LABELS[name].label}`}
+              />
+              <span className="w-8 text-white/60 font-mono text-[10px]">{Math.round(bindings[name].threshold * 100)}%</span>
+            </label>
+          </React.Fragment>
+        ))}
+      </div>
+
+      {/* Timing */}
+      <div className="grid grid-cols-2 gap-x-4 gap-y-2 mb-3 pt-3 border-t border-white/10">
+        {TIMING_FIELDS.map(field => (
+          <label key={field.key} className="flex flex-col gap-1 text-white/50 text-[10px] uppercase tracking-widest">
+            <span className="flex justify-between">
+              {field.label}
+              <span className="text-white/70 font-mono normal-case">{field.format(tuning[field.key])}</span>
+            </span>
+            <input
+              type="range"
+              min={field.min}
+              max={field.max}
+              step={field.step}
+              value={tuning[field.key]}
+              onChange={(e) => onTuningChange({ ...tuning, [field.key]: Number(e.target.value) })}
+              className="accent-[color:var(--accent)]"
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={onCalibrate}
+          className={`px-3 py-1 border text-[10px] uppercase tracking-widest transition-colors ${isCalibrating ? 'border-yellow-400 text-yellow-200 animate-pulse' : 'border-white/10 text-white/70 hover:border-white/40'}`}
+        >
+          {isCalibrating ? 'Cancel Calibration' : 'Calibrate'}
+        </button>
+        <button
+          onClick={onReset}
+          className="px-3 py-1 border border-white/10 text-white/70 text-[10px] uppercase tracking-widest hover:border-white/40 transition-colors"
+        >
+          Reset to Defaults
+        </button>
+        <span className="text-white/40 text-[10px] uppercase tracking-widest">
+          {calibrationFailed
+            ? 'Calibration needs the camera on and a full sweep of your hand'
+            : tuning.calibration ? 'Calibrated' : 'Not calibrated'}
+        </span>
+      </div>
+    </div>
+  );
+};
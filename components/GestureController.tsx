@@ -1,50 +1,139 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { FilesetResolver, GestureRecognizer } from '@mediapipe/tasks-vision';
-import { TreeState } from '../types';
+import { GestureAction, GestureBindings, GestureCalibration, GestureTuning, HandFrame, HandRecording } from '../types';
+import { GESTURE_ACTION_LABELS, GESTURE_LABELS, isGestureName } from '../utils/gestures';
+import { createGestureStateMachine } from '../utils/gestureStateMachine';
+import { resolveMediapipeAssetSources } from '../utils/mediapipeAssets';
+import { inputBus } from '../input';
+import { getHandFrameIndexAt } from '../utils/handRecording';
+import {
+  CALIBRATION_PHASES,
+  CalibrationSamples,
+  getDragGain,
+  getFlickDistance,
+  getFlingSpeed,
+  getMotionDeadzone,
+  getThresholdScale,
+  summarizeCalibration
+} from '../utils/gestureCalibration';
+import {
+  getPalmCenter,
+  getPinchPoint,
+  getPinchRatio,
+  Landmark,
+  PINCH_OFF_RATIO,
+  PINCH_ON_RATIO,
+  toNdc
+} from '../utils/handLandmarks';
 
 interface GestureControllerProps {
-  setTreeState: React.Dispatch<React.SetStateAction<TreeState>>;
+  bindings: GestureBindings;
+  onAction: (action: GestureAction) => void;
+  tuning: GestureTuning;
+  isCalibrating: boolean;
+  onCalibrated: (calibration: GestureCalibration | null) => void;
+  isPhotoFocused: boolean; // Sideways hand flicks step between photos only while one is open
+  replay: HandRecording | null; // Fed through the pipeline in place of the camera, looping
+  onRecordFrame: ((result: Pick<HandFrame, 'gestures' | 'landmarks'>) => void) | null;
+  dwellProgressRef: React.MutableRefObject<number>; // Dwell-to-select progress (0-1), drawn as a ring on the cursor
 }
 
-export const GestureController: React.FC<GestureControllerProps> = ({ setTreeState }) => {
+// Circumference of the cursor's dwell ring (r = 30 in a 64px box)
+const DWELL_RING_LENGTH = 2 * Math.PI * 30;
+
+// A flick is a quick, mostly horizontal movement of an open hand, as with a touch swipe
+const FLICK_WINDOW_MS = 300;
+const FLICK_HORIZONTAL_RATIO = 1.5;
+
+// What the recognizer returns when it sees no hands
+const NO_HANDS: Pick<HandFrame, 'gestures' | 'landmarks'> = { gestures: [], landmarks: [] };
+
+export const GestureController: React.FC<GestureControllerProps> = ({ 
+  bindings, 
+  onAction, 
+  tuning, 
+  isCalibrating, 
+  onCalibrated,
+  isPhotoFocused,
+  replay,
+  onRecordFrame,
+  dwellProgressRef
+}) => {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const [status, setStatus] = useState<string>('INIT_MODEL'); // INIT_MODEL, WAITING_CAMERA, ACTIVE, ERROR
+  const [cameraStatus, setStatus] = useState<string>('INIT_MODEL'); // INIT_MODEL, WAITING_CAMERA, ACTIVE, ERROR
+  const status = replay ? 'REPLAY' : cameraStatus;
   const gestureRecognizerRef = useRef<GestureRecognizer | null>(null);
   const lastVideoTimeRef = useRef(-1);
   const requestRef = useRef<number>(0);
   
   // Logic for smoothing gestures and tracking
-  const previousHandX = useRef<number | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  const pinchRef = useRef<{ x: number; y: number; time: number; speed: number; grabbing: boolean } | null>(null);
+  const twoHandsRef = useRef<{ spread: number; baseAngle: number } | null>(null);
+  const flickRef = useRef<{ path: { x: number; y: number; time: number }[]; cooldownUntil: number }>({ path: [], cooldownUntil: 0 });
+
+  // predictWebcam is a long-lived rAF loop, so it reads the latest props through refs
+  const bindingsRef = useRef(bindings);
+  bindingsRef.current = bindings;
+  const onActionRef = useRef(onAction);
+  onActionRef.current = onAction;
+  const tuningRef = useRef(tuning);
+  tuningRef.current = tuning;
+  const onCalibratedRef = useRef(onCalibrated);
+  onCalibratedRef.current = onCalibrated;
+  const onRecordFrameRef = useRef(onRecordFrame);
+  onRecordFrameRef.current = onRecordFrame;
+  const isPhotoFocusedRef = useRef(isPhotoFocused);
+  isPhotoFocusedRef.current = isPhotoFocused;
+
+  // A replay takes over from the camera; the camera is only started once something needs it
+  const replayRef = useRef<{ recording: HandRecording; startedAt: number; index: number } | null>(null);
+  const [liveRequested, setLiveRequested] = useState(replay === null);
+
+  // Debounces raw per-frame recognitions into deliberate, cooled-down actions
+  const stateMachine = useRef(createGestureStateMachine(() => tuningRef.current));
+
+  // Calibration samples are gathered by the recognition loop while a phase is running
+  const calibrationRef = useRef<{ phase: number; phaseStartedAt: number; samples: CalibrationSamples } | null>(null);
+  const [calibrationPhase, setCalibrationPhase] = useState<number | null>(null);
   
   // Visual Feedback State
   const [handPos, setHandPos] = useState<{x: number, y: number} | null>(null);
   const [detectedGesture, setDetectedGesture] = useState<string>('');
+  const [manipulation, setManipulation] = useState<'' | 'GRAB' | 'ZOOM / TILT'>('');
+  const dwellRingRef = useRef<SVGCircleElement>(null);
 
   useEffect(() => {
+    if (!liveRequested) return;
     let mounted = true;
 
     const init = async () => {
       try {
         setStatus('LOADING_AI');
-        const vision = await FilesetResolver.forVisionTasks(
-          "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.8/wasm"
-        );
-        
-        if (!mounted) return;
+        // Local copies first so the app works offline, then the CDN as a last resort
+        for (const source of resolveMediapipeAssetSources()) {
+          try {
+            const vision = await FilesetResolver.forVisionTasks(source.wasmPath);
+            if (!mounted) return;
 
-        gestureRecognizerRef.current = await GestureRecognizer.createFromOptions(vision, {
-          baseOptions: {
-            modelAssetPath:
-              "https://storage.googleapis.com/mediapipe-models/gesture_recognizer/gesture_recognizer/float16/1/gesture_recognizer.task",
-            delegate: "GPU"
-          },
-          runningMode: "VIDEO",
-          numHands: 1,
-          minHandDetectionConfidence: 0.25, 
-          minHandPresenceConfidence: 0.25,
-          minTrackingConfidence: 0.25
-        });
+            gestureRecognizerRef.current = await GestureRecognizer.createFromOptions(vision, {
+              baseOptions: {
+                modelAssetPath: source.modelPath,
+                delegate: "GPU"
+              },
+              runningMode: "VIDEO",
+              numHands: 2,
+              minHandDetectionConfidence: tuningRef.current.detectionConfidence, 
+              minHandPresenceConfidence: tuningRef.current.detectionConfidence,
+              minTrackingConfidence: tuningRef.current.detectionConfidence
+            });
+            break;
+          } catch (err) {
+            console.warn(`Gesture assets unavailable from ${source.label}:`, err);
+          }
+        }
+
+        if (!gestureRecognizerRef.current) throw new Error("No gesture asset source could be loaded");
 
         if (!mounted) return;
         setStatus('WAITING_CAMERA');
@@ -72,7 +161,7 @@ export const GestureController: React.FC<GestureControllerProps> = ({ setTreeSta
                    if (videoRef.current) {
                        videoRef.current.play().catch(e => console.error("Play error:", e));
                        setStatus('ACTIVE');
-                       predictWebcam();
+                       startLoop();
                    }
                 };
             }
@@ -89,18 +178,202 @@ export const GestureController: React.FC<GestureControllerProps> = ({ setTreeSta
 
     return () => {
         mounted = false;
-        if(requestRef.current) cancelAnimationFrame(requestRef.current);
         if (streamRef.current) {
             streamRef.current.getTracks().forEach(track => track.stop());
         }
     };
+  }, [liveRequested]);
+
+  useEffect(() => () => {
+    if (requestRef.current) cancelAnimationFrame(requestRef.current);
+    requestRef.current = 0;
   }, []);
 
+  // Switching source drops whatever the previous one was tracking
+  useEffect(() => {
+    replayRef.current = replay ? { recording: replay, startedAt: performance.now(), index: -1 } : null;
+    processFrame(NO_HANDS);
+    if (replay) startLoop();
+    else setLiveRequested(true);
+  }, [replay]);
+
+  // Detector confidence can be changed without reloading the model
+  useEffect(() => {
+    gestureRecognizerRef.current?.setOptions({
+      minHandDetectionConfidence: tuning.detectionConfidence,
+      minHandPresenceConfidence: tuning.detectionConfidence,
+      minTrackingConfidence: tuning.detectionConfidence
+    }).catch(err => console.warn("Could not update detector confidence:", err));
+  }, [tuning.detectionConfidence]);
+
+  useEffect(() => {
+    if (!isCalibrating) {
+      calibrationRef.current = null;
+      setCalibrationPhase(null);
+      return;
+    }
+    // Samples only arrive from the recognition loop; without a running camera or replay the phases would never end
+    if (!requestRef.current) {
+      onCalibratedRef.current(null);
+      return;
+    }
+    calibrationRef.current = {
+      phase: 0,
+      phaseStartedAt: performance.now(),
+      samples: { handSizes: [], palmScores: [], sweep: [] }
+    };
+    setCalibrationPhase(0);
+  }, [isCalibrating]);
+
+  // Records one frame for the running calibration phase and moves on when the phase is over
+  const sampleCalibration = (landmarks: Landmark[] | null, gestureName: string, score: number) => {
+      const calibration = calibrationRef.current;
+      if (!calibration) return;
+      const now = performance.now();
+
+      if (landmarks) {
+          const { samples } = calibration;
+          if (CALIBRATION_PHASES[calibration.phase].id === 'palm') {
+              samples.handSizes.push(Math.hypot(landmarks[0].x - landmarks[9].x, landmarks[0].y - landmarks[9].y));
+              samples.palmScores.push(gestureName === 'Open_Palm' ? score : 0);
+          } else {
+              samples.sweep.push({ x: getPalmCenter(landmarks).x, time: now });
+          }
+      }
+
+      if (now - calibration.phaseStartedAt < CALIBRATION_PHASES[calibration.phase].durationMs) return;
+      if (calibration.phase + 1 < CALIBRATION_PHASES.length) {
+          calibration.phase++;
+          calibration.phaseStartedAt = now;
+          setCalibrationPhase(calibration.phase);
+      } else {
+          calibrationRef.current = null;
+          onCalibratedRef.current(summarizeCalibration(calibration.samples));
+      }
+  };
+
+  // Pinch: grabbing a frame focuses it, grabbing anywhere else turns the tree 1:1 with the hand
+  const updatePinch = (landmarks: Landmark[]) => {
+      const ratio = getPinchRatio(landmarks);
+      const point = getPinchPoint(landmarks);
+      const pinch = pinchRef.current;
+
+      if (!pinch && ratio < PINCH_ON_RATIO) {
+          // Handlers (e.g. PhotoFrames) claim the pinch synchronously if it lands on them
+          const claimed = inputBus.emit({ type: 'select', ...toNdc(point) }, 'gesture');
+          pinchRef.current = { x: point.x, y: point.y, time: performance.now(), speed: 0, grabbing: !claimed };
+          if (!claimed) {
+              inputBus.emit({ type: 'grab', active: true }, 'gesture');
+              setManipulation('GRAB');
+          }
+      } else if (pinch && ratio > PINCH_OFF_RATIO) {
+          releasePinch();
+      } else if (pinch && pinch.grabbing) {
+          const { calibration } = tuningRef.current;
+          const dx = point.x - pinch.x;
+          const dy = point.y - pinch.y;
+          if (Math.hypot(dx, dy) < getMotionDeadzone(calibration)) return;
+
+          // The user's calibrated sweep turns the tree once
+          const gain = getDragGain(calibration);
+          inputBus.emit({ type: 'rotate', deltaY: dx * gain, deltaX: dy * gain }, 'gesture');
+          const now = performance.now();
+          pinch.speed = Math.abs(dx) / Math.max((now - pinch.time) / 1000, 1e-3);
+          pinch.x = point.x;
+          pinch.y = point.y;
+          pinch.time = now;
+      }
+  };
+
+  const releasePinch = () => {
+      const pinch = pinchRef.current;
+      if (pinch?.grabbing) {
+          // Only a quick flick at release leaves the tree spinning
+          const fling = pinch.speed >= getFlingSpeed(tuningRef.current.calibration);
+          inputBus.emit({ type: 'grab', active: false, fling }, 'gesture');
+          setManipulation('');
+      }
+      pinchRef.current = null;
+  };
+
+  // Flick: an open hand swept sideways steps to the next (leftwards) or previous (rightwards) photo
+  const updateFlick = (palm: { x: number; y: number }) => {
+      const flick = flickRef.current;
+      if (!isPhotoFocusedRef.current || pinchRef.current || calibrationRef.current) {
+          flick.path = [];
+          return;
+      }
+      const now = performance.now();
+      flick.path.push({ x: palm.x, y: palm.y, time: now });
+      while (now - flick.path[0].time > FLICK_WINDOW_MS) flick.path.shift();
+      if (now < flick.cooldownUntil) return;
+
+      const dx = palm.x - flick.path[0].x;
+      const dy = palm.y - flick.path[0].y;
+      if (Math.abs(dx) >= getFlickDistance(tuningRef.current.calibration) && Math.abs(dx) >= Math.abs(dy) * FLICK_HORIZONTAL_RATIO) {
+          inputBus.emit({ type: 'focusStep', step: dx < 0 ? 1 : -1 }, 'gesture');
+          flick.path = [];
+          flick.cooldownUntil = now + tuningRef.current.cooldownMs;
+      }
+  };
+
+  // Two hands: spreading them zooms the camera, turning them like a steering wheel tilts the tree
+  const updateTwoHands = (first: Landmark[], second: Landmark[]) => {
+      // Order by screen x so the pair keeps a stable direction whichever hand MediaPipe lists first
+      const [left, right] = [getPalmCenter(first), getPalmCenter(second)].sort((a, b) => a.x - b.x);
+      const spread = Math.hypot(right.x - left.x, right.y - left.y);
+      const angle = Math.atan2(right.y - left.y, right.x - left.x);
+      const previous = twoHandsRef.current;
+
+      if (previous && spread > 0.01) {
+          inputBus.emit({ type: 'zoom', factor: previous.spread / spread }, 'gesture');
+      }
+      if (!previous) {
+          twoHandsRef.current = { spread, baseAngle: angle };
+          setManipulation('ZOOM / TILT');
+      } else {
+          previous.spread = spread;
+      }
+      const tilt = angle - twoHandsRef.current!.baseAngle;
+      inputBus.emit({ type: 'tilt', angle: -tilt }, 'gesture');
+  };
+
+  const releaseTwoHands = () => {
+      if (twoHandsRef.current) {
+          inputBus.emit({ type: 'tilt', angle: 0 }, 'gesture');
+          setManipulation('');
+      }
+      twoHandsRef.current = null;
+  };
+
+  // Both the camera and a replay drive one loop; it is started by whichever comes first
+  const startLoop = () => {
+    if (!requestRef.current) predictWebcam();
+  };
+
+  // Next recorded frame due, looping at the end; undefined while the current one still holds
+  const nextReplayFrame = () => {
+    const replay = replayRef.current!;
+    let elapsed = performance.now() - replay.startedAt;
+    if (elapsed > replay.recording.duration) {
+        replay.startedAt = performance.now();
+        replay.index = -1;
+        elapsed = 0;
+    }
+    const index = getHandFrameIndexAt(replay.recording, elapsed);
+    if (index === replay.index || index < 0) return undefined;
+    replay.index = index;
+    return replay.recording.frames[index];
+  };
+
   const predictWebcam = () => {
     const video = videoRef.current;
     const recognizer = gestureRecognizerRef.current;
 
-    if (video && recognizer && video.readyState >= 2) { 
+    if (replayRef.current) {
+        const frame = nextReplayFrame();
+        if (frame) processFrame(frame);
+    } else if (video && recognizer && video.readyState >= 2) { 
         if (video.currentTime !== lastVideoTimeRef.current) {
             lastVideoTimeRef.current = video.currentTime;
             
@@ -111,76 +384,97 @@ export const GestureController: React.FC<GestureControllerProps> = ({ setTreeSta
                 console.warn("Recognition skipped frame", e);
             }
 
-            if (results && results.gestures.length > 0 && results.landmarks.length > 0) {
-                const gesture = results.gestures[0][0]; 
-                const landmarks = results.landmarks[0];
-                
-                // Get Center of Palm
-                const wrist = landmarks[0];
-                const middleFinger = landmarks[9];
-                const centerX = (wrist.x + middleFinger.x) / 2;
-                const centerY = (wrist.y + middleFinger.y) / 2;
-
-                // Update Visual Cursor
-                setHandPos({ x: 1 - centerX, y: centerY });
-                setDetectedGesture(gesture.categoryName);
-
-                // --- 1. Global State Management ---
-                if (gesture.categoryName === 'Open_Palm') {
-                    setTreeState(TreeState.CHAOS);
-                } else if (gesture.categoryName === 'Closed_Fist') {
-                    setTreeState(TreeState.FORMED);
-                }
-
-                // --- 2. Magic Dust Attraction ---
-                const ndcX = (1 - centerX) * 2 - 1; 
-                const ndcY = -(centerY * 2 - 1); 
-
-                window.dispatchEvent(new CustomEvent('hand-move', { 
-                    detail: { x: ndcX, y: ndcY, active: true } 
-                }));
-
-                // --- 3. Swipe to Spin Physics ---
-                const handX = 1 - centerX; 
-                if (previousHandX.current !== null) {
-                    const delta = handX - previousHandX.current;
-                    
-                    // Increased threshold to ignore jitters
-                    // Decreased multiplier (2.5 -> 1.2) for heavy luxury weight
-                    if (Math.abs(delta) > 0.008) { 
-                        const velocity = delta * 1.2; 
-                        window.dispatchEvent(new CustomEvent('tree-spin', { detail: { velocity } }));
-                    }
-                }
-                previousHandX.current = handX;
-
-            } else {
-                // Hand lost
-                previousHandX.current = null;
-                setHandPos(null);
-                setDetectedGesture('');
-                window.dispatchEvent(new CustomEvent('hand-move', { 
-                    detail: { active: false } 
-                }));
-            }
+            const frame = results ?? NO_HANDS;
+            onRecordFrameRef.current?.(frame);
+            processFrame(frame);
         }
     }
+    // The scene updates dwell progress every frame, faster than the recognizer delivers results
+    dwellRingRef.current?.setAttribute('stroke-dashoffset', String(DWELL_RING_LENGTH * (1 - dwellProgressRef.current)));
     requestRef.current = requestAnimationFrame(predictWebcam);
   };
 
+  // The gesture pipeline proper, fed one recognizer result at a time from the camera or a recording
+  const processFrame = (results: Pick<HandFrame, 'gestures' | 'landmarks'>) => {
+    if (results.gestures.length > 0 && results.landmarks.length > 0) {
+        const gesture = results.gestures[0][0]; 
+        const landmarks = results.landmarks[0];
+        
+        // Get Center of Palm
+        const palm = getPalmCenter(landmarks);
+
+        // Update Visual Cursor
+        setHandPos(palm);
+        setDetectedGesture(gesture.categoryName);
+
+        // --- 1. Bound Actions ---
+        // A gesture fires once it has been held, above its threshold, for long enough.
+        // Calibration relaxes thresholds for users whose lighting scores everything lower.
+        const name = gesture.categoryName;
+        const binding = isGestureName(name) ? bindingsRef.current[name] : null;
+        const threshold = binding && binding.action !== 'none'
+            ? binding.threshold * getThresholdScale(tuningRef.current.calibration)
+            : Infinity;
+        if (calibrationRef.current) {
+            sampleCalibration(landmarks, name, gesture.score);
+        } else {
+            const fired = stateMachine.current.update(name, gesture.score, threshold, performance.now());
+            if (fired && binding) onActionRef.current(binding.action);
+        }
+
+        // --- 2. Magic Dust Attraction and Hover Pointing ---
+        const point = toNdc(palm);
+        inputBus.emit({ type: 'attract', point }, 'gesture');
+        inputBus.emit({ type: 'hover', point }, 'gesture');
+
+        // --- 3. Two Hands: Zoom and Tilt, or One Hand: Pinch to Grab ---
+        if (results.landmarks.length >= 2) {
+            releasePinch();
+            flickRef.current.path = [];
+            updateTwoHands(results.landmarks[0], results.landmarks[1]);
+        } else {
+            releaseTwoHands();
+            updatePinch(landmarks);
+            updateFlick(palm);
+        }
+
+    } else {
+        // Hand lost
+        stateMachine.current.reset();
+        sampleCalibration(null, '', 0);
+        flickRef.current.path = [];
+        releasePinch();
+        releaseTwoHands();
+        setHandPos(null);
+        setDetectedGesture('');
+        inputBus.emit({ type: 'attract', point: null }, 'gesture');
+        inputBus.emit({ type: 'hover', point: null }, 'gesture');
+    }
+  };
+
   const getStatusText = () => {
       switch(status) {
           case 'LOADING_AI': return 'DOWNLOADING AI...';
           case 'WAITING_CAMERA': return 'STARTING CAM...';
           case 'ACTIVE': return 'SYSTEM ACTIVE';
+          case 'REPLAY': return 'REPLAYING SESSION';
           case 'ERROR_MODEL': return 'AI LOAD FAILED';
           case 'ERROR_NO_CAM': return 'NO CAMERA';
           default: return 'INITIALIZING...';
       }
   };
 
+  // e.g. "FIST (ASSEMBLE)", from the live binding table
+  const describeGesture = (name: string) => {
+      if (!isGestureName(name)) return 'TRACKING';
+      const action = bindings[name].action;
+      const label = GESTURE_LABELS[name].label.toUpperCase();
+      return action === 'none' ? label : `${label} (${GESTURE_ACTION_LABELS[action].toUpperCase()})`;
+  };
+
   const getStatusColor = () => {
       if (status === 'ACTIVE') return 'text-green-400';
+      if (status === 'REPLAY') return 'text-sky-300';
       if (status.startsWith('ERROR')) return 'text-red-500';
       return 'text-yellow-500';
   };
@@ -201,22 +495,34 @@ export const GestureController: React.FC<GestureControllerProps> = ({ setTreeSta
                 {/* Overlay loading state */}
                 {status !== 'ACTIVE' && (
                     <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/60 p-2 text-center">
-                        <div className={`w-6 h-6 border-2 border-t-transparent rounded-full animate-spin mb-2 ${status.startsWith('ERROR') ? 'border-red-500' : 'border-yellow-500'}`} />
+                        {status !== 'REPLAY' && (
+                            <div className={`w-6 h-6 border-2 border-t-transparent rounded-full animate-spin mb-2 ${status.startsWith('ERROR') ? 'border-red-500' : 'border-yellow-500'}`} />
+                        )}
                         <span className={`text-[10px] font-serif tracking-widest ${getStatusColor()}`}>{getStatusText()}</span>
                     </div>
                 )}
             </div>
             
+            {/* Calibration Prompt */}
+            {calibrationPhase !== null && (
+                <div className="bg-black/80 backdrop-blur-md border border-yellow-500/40 px-4 py-2 rounded-lg shadow-lg w-full">
+                    <span className="block text-yellow-500/80 text-[10px] font-serif uppercase tracking-widest mb-1">
+                        Calibrating {calibrationPhase + 1}/{CALIBRATION_PHASES.length}
+                    </span>
+                    <span className="text-white text-xs font-mono">{CALIBRATION_PHASES[calibrationPhase].prompt}</span>
+                </div>
+            )}
+
             {/* Status Indicator */}
-            {status === 'ACTIVE' && (
+            {(status === 'ACTIVE' || status === 'REPLAY') && (
                 <div className="flex items-center gap-3 bg-black/80 backdrop-blur-md border border-white/10 px-4 py-2 rounded-lg shadow-lg w-full">
                     <div className={`w-3 h-3 rounded-full ${handPos ? 'bg-green-500 shadow-[0_0_8px_#00ff00]' : 'bg-red-500 animate-pulse'}`} />
                     <div className="flex flex-col">
                         <span className="text-yellow-500/80 text-[10px] font-serif uppercase tracking-widest leading-none mb-1">
-                            Gesture Detection
+                            {status === 'REPLAY' ? 'Gesture Replay' : 'Gesture Detection'}
                         </span>
                         <span className="text-white text-xs font-bold font-mono tracking-wide leading-none">
-                            {handPos ? (detectedGesture === 'Open_Palm' ? 'OPEN (SCATTER)' : detectedGesture === 'Closed_Fist' ? 'FIST (ASSEMBLE)' : 'TRACKING') : 'SEARCHING...'}
+                            {handPos ? (manipulation || describeGesture(detectedGesture)) : 'SEARCHING...'}
                         </span>
                     </div>
                 </div>
@@ -235,6 +541,21 @@ export const GestureController: React.FC<GestureControllerProps> = ({ setTreeSta
             >
                 <div className="w-1.5 h-1.5 bg-yellow-100 rounded-full shadow-[0_0_10px_#fff]" />
                 <div className="absolute w-full h-full border border-yellow-200/20 rounded-full animate-ping" />
+                {/* Dwell-to-select progress, filled clockwise from the top */}
+                <svg className="absolute -inset-0.5 -rotate-90" viewBox="0 0 64 64">
+                    <circle 
+                        ref={dwellRingRef}
+                        cx="32" 
+                        cy="32" 
+                        r="30" 
+                        fill="none" 
+                        stroke="#fff3b0" 
+                        strokeWidth="3" 
+                        strokeLinecap="round"
+                        strokeDasharray={DWELL_RING_LENGTH}
+                        strokeDashoffset={DWELL_RING_LENGTH}
+                    />
+                </svg>
             </div>
         )}
     </>
@@ -0,0 +1,139 @@
+import React, { useRef, useState } from 'react';
+import { Greeting } from '../types';
+import { parseGreetingJson, serializeGreeting } from '../utils/greeting';
+import { downloadBlob, toFileSlug } from '../utils/download';
+
+interface GreetingEditorProps {
+  greeting: Greeting;
+  onChange: (greeting: Greeting) => void;
+  onClose: () => void;
+}
+
+// Single-line fields, in the order they read on screen
+const LINE_FIELDS: { key: keyof Greeting; label: string; placeholder: string }[] = [
+  { key: 'title', label: 'Title', placeholder: 'Merry Christmas' },
+  { key: 'subtitle', label: 'Subtitle', placeholder: 'Interactive Christmas Experience' },
+  { key: 'recipient', label: 'To', placeholder: 'Grandma' },
+  { key: 'sender', label: 'From', placeholder: 'Sam' }
+];
+
+const inputClass = "w-full bg-black/50 border border-white/20 rounded px-2 py-1 text-white text-sm outline-none focus:border-[color:var(--accent)]";
+
+// Form for the personal greeting; edits apply live and travel with share links
+export const GreetingEditor: React.FC<GreetingEditorProps> = ({ greeting, onChange, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  const update = (key: keyof Greeting, value: string) => onChange({ ...greeting, [key]: value });
+
+  const handleLoad = async (file: File) => {
+    try {
+      onChange(parseGreetingJson(await file.text()));
+      setLoadFailed(false);
+    } catch (err) {
+      console.warn("Could not load greeting:", err);
+      setLoadFailed(true);
+    }
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([serializeGreeting(greeting)], { type: 'application/json' });
+    downloadBlob(blob, `${toFileSlug(greeting.recipient || greeting.title)}-greeting.json`);
+  };
+
+  return (
+    <div className="pointer-events-auto w-[min(90vw,32rem)] max-h-[60vh] overflow-y-auto bg-black/70 backdrop-blur-md border border-white/10 rounded-xl p-4 shadow-[0_0_30px_rgba(255,215,0,0.15)]">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-[color:var(--accent)] text-sm uppercase tracking-widest transition-colors duration-1000">
+          Greeting
+        </h3>
+        <button 
+          onClick={onClose} 
+          className="text-white/50 hover:text-white text-lg leading-none px-2"
+          aria-label="Close greeting editor"
+        >
+          ×
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mb-2">
+        {LINE_FIELDS.map(field => (
+          <label key={field.key} className="flex flex-col gap-1 text-white/50 text-[10px] uppercase tracking-widest">
+            {field.label}
+            <input
+              type="text"
+              value={greeting[field.key]}
+              placeholder={field.placeholder}
+              onChange={(e) => update(field.key, e.target.value)}
+              className={inputClass}
+            />
+          </label>
+        ))}
+      </div>
+
+      <label className="flex flex-col gap-1 text-white/50 text-[10px] uppercase tracking-widest mb-2">
+        Message
+        <textarea
+          value={greeting.message}
+          rows={4}
+          placeholder="Revealed when the tree assembles"
+          onChange={(e) => update('message', e.target.value)}
+          className={`${inputClass} resize-none`}
+        />
+      </label>
+
+      <div className="grid grid-cols-2 gap-2 mb-3">
+        <label className="flex flex-col gap-1 text-white/50 text-[10px] uppercase tracking-widest">
+          Signature
+          <input
+            type="text"
+            value={greeting.signature}
+            placeholder="With love"
+            onChange={(e) => update('signature', e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-white/50 text-[10px] uppercase tracking-widest">
+          Footer
+          <input
+            type="text"
+            value={greeting.footer}
+            onChange={(e) => update('footer', e.target.value)}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-3 py-1 border border-white/10 text-white/70 text-[10px] uppercase tracking-widest hover:border-white/40 transition-colors"
+        >
+          Load JSON
+        </button>
+        <button
+          onClick={handleDownload}
+          className="px-3 py-1 border border-white/10 text-white/70 text-[10px] uppercase tracking-widest hover:border-white/40 transition-colors"
+        >
+          Download JSON
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) handleLoad(file);
+          }}
+        />
+      </div>
+      {loadFailed && (
+        <p className="text-red-300/80 text-[10px] uppercase tracking-widest mt-2">
+          That file is not a valid greeting
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import React from 'react';
+import { Greeting } from '../types';
+import { getSalutation, getSignOff, hasGreetingMessage } from '../utils/greeting';
+
+interface GreetingRevealProps {
+  greeting: Greeting;
+  visible: boolean;
+}
+
+// Delay before the first line, matching roughly when the tree has finished assembling
+const REVEAL_DELAY_MS = 1200;
+const LINE_STAGGER_MS = 350;
+
+// The personal message, written out line by line once the tree forms and withdrawn when it scatters
+export const GreetingReveal: React.FC<GreetingRevealProps> = ({ greeting, visible }) => {
+  if (!hasGreetingMessage(greeting)) return null;
+
+  const signOff = getSignOff(greeting);
+  const lines = [
+    { text: getSalutation(greeting), className: 'text-2xl text-[color:var(--accent-bright)]' },
+    ...greeting.message.split('\n').map(text => ({ text, className: 'text-xl text-white/90' })),
+    { text: signOff ? `— ${signOff}` : '', className: 'text-2xl text-[color:var(--accent-bright)] text-right mt-2' }
+  ].filter((line, i, all) => line.text.trim() || (i > 0 && i < all.length - 1));
+
+  return (
+    <div 
+      className="absolute left-1/2 top-[22%] -translate-x-1/2 md:left-12 md:translate-x-0 w-[min(90vw,24rem)] pointer-events-none"
+      aria-hidden={!visible}
+    >
+      {lines.map((line, i) => (
+        <p
+          key={i}
+          className={`font-['Caveat',cursive] leading-snug min-h-[1em] drop-shadow-[0_2px_4px_rgba(0,0,0,0.9)] transition-all duration-1000 ${line.className} ${visible ? 'opacity-100 translate-y-0 blur-0' : 'opacity-0 translate-y-3 blur-sm'}`}
+          // Lines appear one after another; on scatter they all fade together
+          style={{ transitionDelay: visible ? `${REVEAL_DELAY_MS + i * LINE_STAGGER_MS}ms` : '0ms' }}
+        >
+          {line.text}
+        </p>
+      ))}
+    </div>
+  );
+};
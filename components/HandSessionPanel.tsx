@@ -0,0 +1,85 @@
+import React, { useRef, useState } from 'react';
+import { HandSession } from '../hooks/useHandSession';
+import { HAND_REPLAY_PARAM } from '../utils/handRecording';
+
+interface HandSessionPanelProps {
+  session: HandSession;
+  onStopRecording: () => void;
+  onClose: () => void;
+}
+
+const formatDuration = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+// Debug menu: capture what the hand tracker sees to a JSON file, or replay one in place of the camera
+export const HandSessionPanel: React.FC<HandSessionPanelProps> = ({ session, onStopRecording, onClose }) => {
+  const recordingInputRef = useRef<HTMLInputElement>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const { isRecording, replay } = session;
+
+  return (
+    <div className="pointer-events-auto w-[min(90vw,28rem)] bg-black/70 backdrop-blur-md border border-white/10 rounded-xl p-4 shadow-[0_0_30px_rgba(255,215,0,0.15)]">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-[color:var(--accent)] text-sm uppercase tracking-widest transition-colors duration-1000">
+          Hand Session <span className="text-white/50 font-mono text-xs normal-case">— debug</span>
+        </h3>
+        <button
+          onClick={onClose}
+          className="text-white/50 hover:text-white text-lg leading-none px-2"
+          aria-label="Close hand session"
+        >
+          ×
+        </button>
+      </div>
+
+      <p className="text-white/60 text-xs font-mono mb-3">
+        {replay
+          ? `Replaying "${replay.name}" — ${replay.frames.length} frames, ${formatDuration(replay.duration)}, looping`
+          : 'Using the live camera'}
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={isRecording ? onStopRecording : session.startRecording}
+          disabled={replay !== null}
+          className={`px-3 py-1 border text-[10px] uppercase tracking-widest disabled:opacity-40 transition-colors ${isRecording ? 'border-red-500 bg-red-900/40 text-red-200 animate-pulse' : 'border-white/10 text-white/70 hover:border-white/40'}`}
+        >
+          {isRecording ? '■ Stop & Save' : '● Record'}
+        </button>
+        <button
+          onClick={() => recordingInputRef.current?.click()}
+          disabled={isRecording}
+          className="px-3 py-1 border border-white/10 text-white/70 text-[10px] uppercase tracking-widest hover:border-white/40 disabled:opacity-40 transition-colors"
+        >
+          Replay JSON
+        </button>
+        {replay && (
+          <button
+            onClick={session.stopReplay}
+            className="px-3 py-1 border border-white/10 text-white/70 text-[10px] uppercase tracking-widest hover:border-white/40 transition-colors"
+          >
+            Back to Camera
+          </button>
+        )}
+        <input
+          ref={recordingInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={async (e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) setLoadFailed(!(await session.loadReplay(file)));
+          }}
+        />
+      </div>
+      {loadFailed && (
+        <p className="text-red-300/80 text-[10px] uppercase tracking-widest mt-2">
+          That file is not a valid hand recording
+        </p>
+      )}
+      <p className="text-white/40 text-[10px] font-mono mt-3">
+        Tip: open the app with ?{HAND_REPLAY_PARAM}=&lt;url of a recording&gt; to start replaying without a camera.
+      </p>
+    </div>
+  );
+};
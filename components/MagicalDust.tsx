@@ -1,27 +1,45 @@
-import React, { useRef, useMemo, useEffect } from 'react';
+import React, { useRef, useMemo } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
 import { THEME, CONSTANTS } from '../types';
-
-export const MagicalDust: React.FC = () => {
-  const { viewport, pointer } = useThree();
-  const count = CONSTANTS.DUST_COUNT;
+import { createRandom, RANDOM_STREAMS } from '../utils/random';
+import { useColorFade } from '../hooks/useColorFade';
+import { useInputIntent } from '../input';
+
+interface MagicalDustProps {
+  count?: number;
+  color?: string;
+  seed?: number;
+  size?: number;
+  turbulence?: boolean; // Off in reduced-motion mode: dust only follows the pointer, without swirl or jitter
+}
+
+export const MagicalDust: React.FC<MagicalDustProps> = ({ 
+  count = CONSTANTS.DUST_COUNT, 
+  color = THEME.goldHighlight,
+  seed = 0,
+  size = 0.25,
+  turbulence = true
+}) => {
+  const { viewport } = useThree();
+
+  // One stream drives both the initial layout and the per-frame turbulence/respawns
+  const random = useMemo(() => createRandom(seed, RANDOM_STREAMS.dust), [seed]);
   const meshRef = useRef<THREE.Points>(null);
+  const fadedColor = useColorFade(color);
   
-  // Track hand position from camera
+  // The hand, when the camera sees one, takes over from the mouse or finger (or a show replaying one)
   const handTarget = useRef<{x: number, y: number, active: boolean}>({ x: 0, y: 0, active: false });
+  const pointerTarget = useRef<{x: number, y: number, active: boolean}>({ x: 0, y: 0, active: false });
 
-  useEffect(() => {
-    const onHandMove = (e: CustomEvent) => {
-        if (e.detail.active) {
-            handTarget.current = { x: e.detail.x, y: e.detail.y, active: true };
-        } else {
-            handTarget.current.active = false;
-        }
-    };
-    window.addEventListener('hand-move', onHandMove as any);
-    return () => window.removeEventListener('hand-move', onHandMove as any);
-  }, []);
+  useInputIntent('attract', ({ point }, source) => {
+    const target = source === 'gesture' ? handTarget : pointerTarget;
+    if (point) {
+        target.current = { x: point.x, y: point.y, active: true };
+    } else {
+        target.current.active = false;
+    }
+  });
   
   // Initialize particles
   const particles = useMemo(() => {
@@ -29,9 +47,9 @@ export const MagicalDust: React.FC = () => {
     const vel = new Float32Array(count * 3);
     
     for (let i = 0; i < count; i++) {
-      pos[i * 3] = (Math.random() - 0.5) * 25;
-      pos[i * 3 + 1] = (Math.random() - 0.5) * 25;
-      pos[i * 3 + 2] = (Math.random() - 0.5) * 25;
+      pos[i * 3] = (random() - 0.5) * 25;
+      pos[i * 3 + 1] = (random() - 0.5) * 25;
+      pos[i * 3 + 2] = (random() - 0.5) * 25;
 
       // Almost zero initial velocity for absolute stillness
       vel[i * 3] = 0;
@@ -39,7 +57,7 @@ export const MagicalDust: React.FC = () => {
       vel[i * 3 + 2] = 0;
     }
     return { pos, vel };
-  }, [count]);
+  }, [count, random]);
 
   const texture = useMemo(() => {
     const canvas = document.createElement('canvas');
@@ -62,6 +80,8 @@ export const MagicalDust: React.FC = () => {
   useFrame((state) => {
     if (!meshRef.current) return;
 
+    (meshRef.current.material as THREE.PointsMaterial).color.copy(fadedColor);
+
     const positions = meshRef.current.geometry.attributes.position.array as Float32Array;
     const velocities = particles.vel;
 
@@ -73,9 +93,9 @@ export const MagicalDust: React.FC = () => {
         targetX = (handTarget.current.x * viewport.width) / 2;
         targetY = (handTarget.current.y * viewport.height) / 2;
         isActive = true;
-    } else if (pointer.x !== 0 || pointer.y !== 0) { // Only if pointer moved
-        targetX = (pointer.x * viewport.width) / 2;
-        targetY = (pointer.y * viewport.height) / 2;
+    } else if (pointerTarget.current.active) {
+        targetX = (pointerTarget.current.x * viewport.width) / 2;
+        targetY = (pointerTarget.current.y * viewport.height) / 2;
         isActive = true;
     } else {
         targetX = 0;
@@ -106,15 +126,18 @@ export const MagicalDust: React.FC = () => {
           if (distSq < 200) {
             // Significantly reduced force (0.015 -> 0.005) for gentle drift
             const force = handTarget.current.active ? 0.005 : 0.008;
-            velocities[idx] += dx * force * 0.02 + (dy * 0.002);
-            velocities[idx + 1] += dy * force * 0.02 - (dx * 0.002);
+            const swirl = turbulence ? 0.002 : 0;
+            velocities[idx] += dx * force * 0.02 + (dy * swirl);
+            velocities[idx + 1] += dy * force * 0.02 - (dx * swirl);
             velocities[idx + 2] += dz * force * 0.02;
           }
           
           // Slight turbulence
-          velocities[idx] += (Math.random() - 0.5) * 0.001;
-          velocities[idx + 1] += (Math.random() - 0.5) * 0.001;
-          velocities[idx + 2] += (Math.random() - 0.5) * 0.001;
+          if (turbulence) {
+            velocities[idx] += (random() - 0.5) * 0.001;
+            velocities[idx + 1] += (random() - 0.5) * 0.001;
+            velocities[idx + 2] += (random() - 0.5) * 0.001;
+          }
           
           // Higher Drag for "thick air" luxury feel
           velocities[idx] *= 0.97;
@@ -129,8 +152,8 @@ export const MagicalDust: React.FC = () => {
       // Respawn logic
       if (py < -15) {
         positions[idx + 1] = 15;
-        positions[idx] = (Math.random() - 0.5) * 20;
-        positions[idx + 2] = (Math.random() - 0.5) * 20;
+        positions[idx] = (random() - 0.5) * 20;
+        positions[idx + 2] = (random() - 0.5) * 20;
         velocities[idx] = 0;
         velocities[idx+1] = 0;
         velocities[idx+2] = 0;
@@ -142,7 +165,7 @@ export const MagicalDust: React.FC = () => {
 
   return (
     <points ref={meshRef}>
-      <bufferGeometry>
+      <bufferGeometry key={count}>
         <bufferAttribute
           attach="attributes-position"
           count={count}
@@ -151,13 +174,12 @@ export const MagicalDust: React.FC = () => {
         />
       </bufferGeometry>
       <pointsMaterial
-        size={0.25}
+        size={size}
         map={texture}
         transparent
         alphaTest={0.01}
         depthWrite={false}
         blending={THREE.AdditiveBlending}
-        color={THEME.goldHighlight}
       />
     </points>
   );
@@ -1,38 +1,46 @@
 import React, { useMemo, useRef, useLayoutEffect } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { CONSTANTS, THEME } from '../types';
+import { CONSTANTS, THEME, ThemePalette } from '../types';
+import { createFormationRandom, createRandom, RandomFn, RANDOM_STREAMS } from '../utils/random';
+import { useColorFade } from '../hooks/useColorFade';
+import { useFormationMorph } from '../hooks/useFormationMorph';
+import { DEFAULT_FORMATION_ID, Formation, getFormation } from '../formations';
 
 interface OrnamentsProps {
   progressRef: React.MutableRefObject<number>;
+  count?: number;
+  theme?: ThemePalette;
+  seed?: number;
+  formation?: Formation;
 }
 
+const SILVER = new THREE.Color('#efefef');
+
+// Palette slots referenced by each ornament's colour index. Boxes also draw from
+// the trailing Emerald slot; baubles only use the first four.
+const SPHERE_PALETTE_SIZE = 4;
+const BOX_PALETTE_SIZE = 5;
+
 // Helper to generate transformation data for different ornament types
-const generateTransformData = (count: number, type: 'sphere' | 'box') => {
+export const generateTransformData = (
+    count: number, 
+    type: 'sphere' | 'box', 
+    random: RandomFn = Math.random
+) => {
     const chaosData: any[] = [];
-    const targetData: any[] = [];
-    const colors: THREE.Color[] = [];
-    
-    const height = CONSTANTS.TREE_HEIGHT;
-    // Boxes sit slightly further out to look like they are resting on branches
-    const radius = CONSTANTS.TREE_RADIUS + (type === 'box' ? 0.8 : 0.5); 
+    const targetScales: number[] = [];
+    // Indices into the live palette, so a theme change recolours without re-laying out
+    const colorIndices: number[] = [];
     
-    const palette = [
-        new THREE.Color(THEME.gold),
-        new THREE.Color(THEME.goldHighlight),
-        new THREE.Color(THEME.red),
-        new THREE.Color('#efefef'), // Silver
-    ];
     // Add Emerald Green specifically for gift boxes for variety
-    if (type === 'box') {
-         palette.push(new THREE.Color(THEME.emerald));
-    }
+    const paletteSize = type === 'box' ? BOX_PALETTE_SIZE : SPHERE_PALETTE_SIZE;
 
     for (let i = 0; i < count; i++) {
         // CHAOS POSITION (Random cloud)
-        const chaosR = 12 + Math.random() * 8;
-        const theta = Math.random() * Math.PI * 2;
-        const phi = Math.random() * Math.PI;
+        const chaosR = 12 + random() * 8;
+        const theta = random() * Math.PI * 2;
+        const phi = random() * Math.PI;
         
         chaosData.push({
             pos: new THREE.Vector3(
@@ -41,77 +49,93 @@ const generateTransformData = (count: number, type: 'sphere' | 'box') => {
                 chaosR * Math.sin(phi) * Math.sin(theta)
             ),
             // Reduced chaos rotation range for a calmer look
-            rot: new THREE.Euler(Math.random()*Math.PI * 0.5, Math.random()*Math.PI * 0.5, Math.random()*Math.PI * 0.5),
-            scale: type === 'box' ? (0.5 + Math.random() * 0.4) : (0.3 + Math.random() * 0.4)
+            rot: new THREE.Euler(random()*Math.PI * 0.5, random()*Math.PI * 0.5, random()*Math.PI * 0.5),
+            scale: type === 'box' ? (0.5 + random() * 0.4) : (0.3 + random() * 0.4)
         });
 
-        // TARGET POSITION (Tree Cone)
-        const t = i / count; 
-        // For boxes, bias them slightly towards the bottom where branches are stronger
-        let hNormalized = t;
-        if (type === 'box') {
-             hNormalized = Math.pow(t, 1.1); // Slight bias to bottom
-        }
-        
-        const h = hNormalized * height - (height / 2);
-        
-        // Radius at this height
-        const rAtHeight = (1 - ((h + height/2)/height)) * radius;
-        
-        // Golden angle distribution for natural look
-        const angle = i * 137.5 + (Math.random() * 0.5); 
-        
-        targetData.push({
-            pos: new THREE.Vector3(Math.cos(angle) * rAtHeight, h, Math.sin(angle) * rAtHeight),
-            rot: new THREE.Euler(
-                type === 'box' ? 0 : 0, 
-                angle, 
-                type === 'box' ? 0 : 0
-            ),
-            scale: type === 'box' ? (0.6 + Math.random() * 0.3) : (0.4 + Math.random() * 0.3)
-        });
+        // Formed scale; formed position and rotation come from the active formation
+        targetScales.push(type === 'box' ? (0.6 + random() * 0.3) : (0.4 + random() * 0.3));
 
-        colors.push(palette[Math.floor(Math.random() * palette.length)]);
+        colorIndices.push(Math.floor(random() * paletteSize));
     }
 
-    return { chaosData, targetData, colors };
+    return { chaosData, targetScales, colorIndices };
 };
 
-export const Ornaments: React.FC<OrnamentsProps> = ({ progressRef }) => {
+export const Ornaments: React.FC<OrnamentsProps> = ({ 
+  progressRef, 
+  count = CONSTANTS.ORNAMENT_COUNT, 
+  theme = THEME,
+  seed = 0,
+  formation = getFormation(DEFAULT_FORMATION_ID)
+}) => {
   const sphereMeshRef = useRef<THREE.InstancedMesh>(null);
   const boxMeshRef = useRef<THREE.InstancedMesh>(null);
 
   // Split the total ornament count: 75% Baubles, 25% Gift Boxes
-  const sphereCount = Math.floor(CONSTANTS.ORNAMENT_COUNT * 0.75);
-  const boxCount = CONSTANTS.ORNAMENT_COUNT - sphereCount;
+  const sphereCount = Math.floor(count * 0.75);
+  const boxCount = count - sphereCount;
 
   // Generate data for both types
-  const spheres = useMemo(() => generateTransformData(sphereCount, 'sphere'), [sphereCount]);
-  const boxes = useMemo(() => generateTransformData(boxCount, 'box'), [boxCount]);
+  const spheres = useMemo(
+    () => generateTransformData(sphereCount, 'sphere', createRandom(seed, RANDOM_STREAMS.ornamentSpheres)), 
+    [sphereCount, seed]
+  );
+  const boxes = useMemo(
+    () => generateTransformData(boxCount, 'box', createRandom(seed, RANDOM_STREAMS.ornamentBoxes)), 
+    [boxCount, seed]
+  );
+
+  // Formed transforms, morphing whenever the formation changes
+  const sphereMorph = useFormationMorph(useMemo(
+    () => formation.ornaments(sphereCount, 'sphere', createFormationRandom(seed, formation.id, RANDOM_STREAMS.ornamentSphereTargets)),
+    [formation, sphereCount, seed]
+  ));
+  const boxMorph = useFormationMorph(useMemo(
+    () => formation.ornaments(boxCount, 'box', createFormationRandom(seed, formation.id, RANDOM_STREAMS.ornamentBoxTargets)),
+    [formation, boxCount, seed]
+  ));
   
   const tempObj = useMemo(() => new THREE.Object3D(), []);
   
-  // Apply colors once on mount/update
-  useLayoutEffect(() => {
+  // Live palette, cross-fading whenever the theme changes
+  const gold = useColorFade(theme.gold);
+  const goldHighlight = useColorFade(theme.goldHighlight);
+  const red = useColorFade(theme.red);
+  const emerald = useColorFade(theme.emerald);
+  const palette = useMemo(() => [gold, goldHighlight, red, SILVER, emerald], [gold, goldHighlight, red, emerald]);
+  const appliedPalette = useMemo(() => palette.map(col => col.clone()), [palette]);
+
+  // A mesh with no instances (e.g. a link with 0 or 1 ornaments) never gets an instanceColor buffer
+  const applyColors = () => {
     if (sphereMeshRef.current) {
-        spheres.colors.forEach((col, i) => sphereMeshRef.current?.setColorAt(i, col));
-        sphereMeshRef.current.instanceColor!.needsUpdate = true;
+        spheres.colorIndices.forEach((slot, i) => sphereMeshRef.current?.setColorAt(i, palette[slot]));
+        if (sphereMeshRef.current.instanceColor) sphereMeshRef.current.instanceColor.needsUpdate = true;
     }
     if (boxMeshRef.current) {
-        boxes.colors.forEach((col, i) => boxMeshRef.current?.setColorAt(i, col));
-        boxMeshRef.current.instanceColor!.needsUpdate = true;
+        boxes.colorIndices.forEach((slot, i) => boxMeshRef.current?.setColorAt(i, palette[slot]));
+        if (boxMeshRef.current.instanceColor) boxMeshRef.current.instanceColor.needsUpdate = true;
     }
-  }, [spheres, boxes]);
+    palette.forEach((col, i) => appliedPalette[i].copy(col));
+  };
+
+  // Apply colors once on mount/update
+  useLayoutEffect(applyColors, [spheres, boxes]);
 
   useFrame((state) => {
     const progress = progressRef.current;
     const time = state.clock.elapsedTime;
+
+    // Re-upload instance colours only while a theme cross-fade is running
+    if (palette.some((col, i) => !col.equals(appliedPalette[i]))) {
+        applyColors();
+    }
     
     // --- Update Spheres ---
     if (sphereMeshRef.current) {
         for (let i = 0; i < sphereCount; i++) {
             const chaos = spheres.chaosData[i];
-            const target = spheres.targetData[i];
+            const target = sphereMorph.current[i];
 
             tempObj.position.lerpVectors(chaos.pos, target.pos, progress);
             
@@ -124,7 +148,7 @@ export const Ornaments: React.FC<OrnamentsProps> = ({ progressRef }) => {
                 THREE.MathUtils.lerp(chaos.rot.z + wobble, target.rot.z, progress)
             );
 
-            const sc = THREE.MathUtils.lerp(chaos.scale, target.scale, progress);
+            const sc = THREE.MathUtils.lerp(chaos.scale, spheres.targetScales[i], progress);
             tempObj.scale.set(sc, sc, sc);
             tempObj.updateMatrix();
             sphereMeshRef.current.setMatrixAt(i, tempObj.matrix);
@@ -136,7 +160,7 @@ export const Ornaments: React.FC<OrnamentsProps> = ({ progressRef }) => {
     if (boxMeshRef.current) {
          for (let i = 0; i < boxCount; i++) {
             const chaos = boxes.chaosData[i];
-            const target = boxes.targetData[i];
+            const target = boxMorph.current[i];
 
             tempObj.position.lerpVectors(chaos.pos, target.pos, progress);
             
@@ -149,7 +173,7 @@ export const Ornaments: React.FC<OrnamentsProps> = ({ progressRef }) => {
                 THREE.MathUtils.lerp(chaos.rot.z + tumble * Math.sin(i*0.5 + time * 0.2), target.rot.z, progress)
             );
 
-            const sc = THREE.MathUtils.lerp(chaos.scale, target.scale, progress);
+            const sc = THREE.MathUtils.lerp(chaos.scale, boxes.targetScales[i], progress);
             tempObj.scale.set(sc, sc, sc);
             tempObj.updateMatrix();
             boxMeshRef.current.setMatrixAt(i, tempObj.matrix);
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { UserPhoto } from '../types';
+
+interface PhotoAlbumProps {
+  photos: UserPhoto[];
+  onAdd: () => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+  onMove: (from: number, to: number) => void;
+  onCaptionChange: (id: string, caption: string) => void;
+  onClose: () => void;
+}
+
+export const PhotoAlbum: React.FC<PhotoAlbumProps> = ({ 
+  photos, 
+  onAdd, 
+  onRemove, 
+  onClear, 
+  onMove, 
+  onCaptionChange,
+  onClose 
+}) => {
+  // Index of the thumbnail being dragged, and the slot it is hovering over
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+
+  // Clearing deletes every saved photo, so it takes a second click
+  const [confirmingClear, setConfirmingClear] = useState(false);
+
+  const resetDrag = () => {
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  return (
+    <div className="pointer-events-auto w-[min(90vw,40rem)] bg-black/70 backdrop-blur-md border border-yellow-600/40 rounded-xl p-4 shadow-[0_0_30px_rgba(255,215,0,0.15)]">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-yellow-500 text-sm uppercase tracking-widest">
+          Memory Album <span className="text-white/50 font-mono text-xs">({photos.length})</span>
+        </h3>
+        <div className="flex items-center gap-2">
+          {photos.length > 0 && (
+            <button
+              onClick={() => {
+                if (confirmingClear) onClear();
+                setConfirmingClear(!confirmingClear);
+              }}
+              onBlur={() => setConfirmingClear(false)}
+              className={`px-3 py-1 border text-[10px] uppercase tracking-widest transition-colors ${confirmingClear ? 'border-red-500/70 text-red-300' : 'border-white/10 text-white/70 hover:border-white/40'}`}
+            >
+              {confirmingClear ? 'Click Again to Clear' : 'Clear Album'}
+            </button>
+          )}
+          <button 
+            onClick={onClose} 
+            className="text-white/50 hover:text-yellow-200 text-lg leading-none px-2"
+            aria-label="Close album"
+          >
+            ×
+          </button>
+        </div>
+      </div>
+
+      <p className="text-white/40 text-[10px] uppercase tracking-widest mb-3">
+        Drag to reorder • Photo 1 hangs on the first frame, then down the spiral
+      </p>
+
+      <div className="grid grid-cols-3 sm:grid-cols-4 gap-3 max-h-72 overflow-y-auto pr-1">
+        {photos.map((photo, i) => (
+          <div
+            key={photo.id}
+            draggable
+            onDragStart={(e) => {
+              setDragIndex(i);
+              e.dataTransfer.effectAllowed = 'move';
+            }}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setOverIndex(i);
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              if (dragIndex !== null) onMove(dragIndex, i);
+              resetDrag();
+            }}
+            onDragEnd={resetDrag}
+            className={`
+              relative group flex flex-col bg-[#f0f0f0] p-1.5 pb-1 rounded-sm cursor-grab active:cursor-grabbing transition-all duration-200
+              ${dragIndex === i ? 'opacity-40' : 'opacity-100'}
+              ${overIndex === i && dragIndex !== i ? 'ring-2 ring-yellow-400 scale-105' : ''}
+            `}
+          >
+            <img 
+              src={photo.url} 
+              alt={photo.caption || `Memory ${i + 1}`} 
+              className="w-full aspect-square object-cover pointer-events-none" 
+              draggable={false}
+            />
+            <input
+              type="text"
+              value={photo.caption}
+              placeholder="Add caption"
+              onChange={(e) => onCaptionChange(photo.id, e.target.value)}
+              className="mt-1 w-full bg-transparent text-[11px] text-gray-800 placeholder-gray-400 text-center outline-none"
+            />
+            <span className="absolute top-2 left-2 bg-black/60 text-yellow-400 text-[10px] font-mono px-1 rounded">
+              {i + 1}
+            </span>
+            <button
+              onClick={() => onRemove(photo.id)}
+              className="absolute top-1 right-1 w-5 h-5 rounded-full bg-red-900/80 text-white text-xs leading-none opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+              aria-label={`Remove photo ${i + 1}`}
+            >
+              ×
+            </button>
+          </div>
+        ))}
+
+        {/* Append Tile */}
+        <button
+          onClick={onAdd}
+          className="aspect-square flex flex-col items-center justify-center border-2 border-dashed border-emerald-600/60 text-emerald-400 hover:bg-emerald-900/30 hover:text-emerald-200 rounded-sm transition-colors"
+        >
+          <span className="text-2xl leading-none">+</span>
+          <span className="text-[10px] uppercase tracking-widest mt-1">Add</span>
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,38 +1,48 @@
-import React, { useMemo, useRef } from 'react';
-import { useFrame, useThree } from '@react-three/fiber';
-import { useTexture } from '@react-three/drei';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ThreeEvent, useFrame, useThree } from '@react-three/fiber';
+import { Html, useTexture } from '@react-three/drei';
 import * as THREE from 'three';
-import { CONSTANTS } from '../types';
+import { CONSTANTS, UserPhoto } from '../types';
+import { createFormationRandom, createRandom, RANDOM_STREAMS } from '../utils/random';
+import { DEFAULT_FORMATION_ID, Formation, getFormation } from '../formations';
+import { getPointerSource, inputBus, useInputIntent } from '../input';
+import { createDwellTracker, DwellTarget } from '../utils/dwell';
 
 interface PhotoFramesProps {
   progressRef: React.MutableRefObject<number>;
-  userPhotos: string[];
+  userPhotos: UserPhoto[];
   focusedIndex: number | null;
-  setFocusedIndex: (index: number | null) => void;
   parentGroup: React.RefObject<THREE.Group | null>;
+  count?: number;
+  seed?: number;
+  formation?: Formation;
+  focusAnchorRef?: React.MutableRefObject<THREE.Vector3 | null>;
+  dwellMs?: number; // 0 turns dwell-to-select off
+  dwellProgressRef?: React.MutableRefObject<number>; // Written every frame for the hand cursor's ring
 }
 
 export const PhotoFrames: React.FC<PhotoFramesProps> = ({ 
     progressRef, 
     userPhotos,
     focusedIndex,
-    setFocusedIndex,
-    parentGroup
+    parentGroup,
+    count = CONSTANTS.PHOTO_COUNT,
+    seed = 0,
+    formation = getFormation(DEFAULT_FORMATION_ID),
+    focusAnchorRef,
+    dwellMs = 0,
+    dwellProgressRef
 }) => {
-  const count = CONSTANTS.PHOTO_COUNT;
 
-  const frames = useMemo(() => {
+  const chaosFrames = useMemo(() => {
+    const random = createRandom(seed, RANDOM_STREAMS.photoFrames);
     const data = [];
-    const height = CONSTANTS.TREE_HEIGHT;
-    // Base radius slightly outside foliage
-    const baseRadius = CONSTANTS.TREE_RADIUS + 0.8; 
-    const dummy = new THREE.Object3D();
 
     for (let i = 0; i < count; i++) {
-        // --- 1. Chaos Position (Random Cloud) ---
-        const chaosR = 15 + Math.random() * 10;
-        const theta = Math.random() * Math.PI * 2;
-        const phi = Math.random() * Math.PI;
+        // Chaos Position (Random Cloud)
+        const chaosR = 15 + random() * 10;
+        const theta = random() * Math.PI * 2;
+        const phi = random() * Math.PI;
         
         const chaosPos = new THREE.Vector3(
             chaosR * Math.sin(phi) * Math.cos(theta),
@@ -40,53 +50,89 @@ export const PhotoFrames: React.FC<PhotoFramesProps> = ({
             chaosR * Math.sin(phi) * Math.sin(theta)
         );
         // Random tumble rotation for chaos
-        const chaosRot = new THREE.Euler(Math.random() * Math.PI, Math.random() * Math.PI, Math.random() * Math.PI);
+        const chaosRot = new THREE.Euler(random() * Math.PI, random() * Math.PI, random() * Math.PI);
 
-        // --- 2. Target Position (On Tree) ---
-        const t = i / count;
-        
-        // Add randomness to height to break the perfect linear spiral
-        const heightJitter = (Math.random() - 0.5) * 1.5;
-        
-        // Distribution
-        let h = (t * 0.7 + 0.15) * height - (height / 2) + heightJitter;
-        
-        // Clamp height
-        h = Math.max(-height/2 + 1, Math.min(height/2 - 2, h));
-        
-        // Calculate cone radius at this specific height
-        const rAtHeight = (1 - ((h + height/2)/height)) * baseRadius;
-        
-        // Add slight depth variation
-        const depthJitter = (Math.random() - 0.5) * 0.4;
-        const finalRadius = rAtHeight + depthJitter;
+        data.push({ chaosPos, chaosRot });
+    }
+    return data;
+  }, [count, seed]);
 
-        // Golden angle distribution
-        const angle = i * 137.5 * (Math.PI / 180); 
-        
-        const targetPos = new THREE.Vector3(Math.cos(angle) * finalRadius, h, Math.sin(angle) * finalRadius);
-        
-        // Face the frame outward
-        dummy.position.copy(targetPos);
-        dummy.lookAt(0, h, 0); 
-        dummy.rotateY(Math.PI); 
-        
-        // Add random slight tilt for "haphazardly hung" look
-        dummy.rotateZ((Math.random() - 0.5) * 0.3);
-        dummy.rotateX((Math.random() - 0.5) * 0.2);
-        
-        const targetRot = dummy.rotation.clone();
+  // Target transforms come from the active formation. Each frame already eases towards
+  // its target every tick, so swapping targets is enough to morph between formations.
+  const frames = useMemo(() => {
+    const targets = formation.frames(count, createFormationRandom(seed, formation.id, RANDOM_STREAMS.photoFrameTargets));
+    return chaosFrames.map((chaos, i) => ({
+        ...chaos,
+        targetPos: targets[i].pos,
+        targetRot: targets[i].rot
+    }));
+  }, [chaosFrames, formation, count, seed]);
 
-        data.push({ chaosPos, chaosRot, targetPos, targetRot });
+  // Report where the focused frame normally hangs, so the tree can turn it towards the camera
+  useEffect(() => {
+    if (!focusAnchorRef) return;
+    const frame = focusedIndex !== null ? frames[focusedIndex] : undefined;
+    focusAnchorRef.current = frame ? frame.targetPos : null;
+  }, [focusAnchorRef, focusedIndex, frames]);
+
+  // Pinching over a frame focuses it; the pinch is claimed so it doesn't also grab the tree
+  const { camera } = useThree();
+  const containerRef = useRef<THREE.Group>(null);
+  const raycaster = useMemo(() => new THREE.Raycaster(), []);
+  const pickFrame = (x: number, y: number): DwellTarget => {
+    if (!containerRef.current) return null;
+    raycaster.setFromCamera(new THREE.Vector2(x, y), camera);
+    for (const hit of raycaster.intersectObject(containerRef.current, true)) {
+        let object: THREE.Object3D | null = hit.object;
+        while (object && object.userData.frameIndex === undefined) object = object.parent;
+        if (object) return object.userData.frameIndex;
     }
-    return data;
-  }, [count]);
+    return null;
+  };
+
+  useInputIntent('select', ({ x, y }) => {
+    const index = pickFrame(x, y);
+    if (index === null) return;
+    inputBus.emit({ type: 'focus', index }, 'gesture');
+    return true;
+  });
+
+  // Hand cursor: hovering highlights a frame, dwelling on it focuses it, dwelling on empty space unfocuses
+  const hoverPoint = useRef<{ x: number; y: number } | null>(null);
+  const isGrabbing = useRef(false);
+  const dwell = useMemo(() => createDwellTracker(), []);
+  const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
+
+  useInputIntent('hover', ({ point }) => {
+    hoverPoint.current = point;
+  });
+  // Sweeping the tree round with a pinch is not pointing at anything
+  useInputIntent('grab', ({ active }) => {
+    isGrabbing.current = active;
+  });
+
+  useFrame(() => {
+    const point = hoverPoint.current;
+    const tracking = point !== null && !isGrabbing.current;
+    const target = tracking ? pickFrame(point.x, point.y) : null;
+    if (target !== hoveredIndex) setHoveredIndex(target);
+
+    if (!tracking || dwellMs <= 0) {
+        dwell.reset();
+        if (dwellProgressRef) dwellProgressRef.current = 0;
+        return;
+    }
+    const { progress, fired } = dwell.update(target, target !== focusedIndex, performance.now(), dwellMs);
+    if (dwellProgressRef) dwellProgressRef.current = progress;
+    if (fired) inputBus.emit({ type: 'focus', index: target }, 'gesture');
+  });
 
   return (
-    <group>
+    <group ref={containerRef}>
       {frames.map((frame, i) => {
         // Determine which photo to use for this frame
-        const photoUrl = userPhotos.length > 0 
+        // Album order decides which frame shows which photo
+        const photo = userPhotos.length > 0 
             ? userPhotos[i % userPhotos.length] 
             : null;
 
@@ -96,11 +142,13 @@ export const PhotoFrames: React.FC<PhotoFramesProps> = ({
                 data={frame} 
                 progressRef={progressRef} 
                 index={i} 
-                photoUrl={photoUrl}
+                photoUrl={photo ? photo.url : null}
+                caption={photo ? photo.caption : ''}
                 isFocused={focusedIndex === i}
+                isHovered={hoveredIndex === i && focusedIndex !== i}
                 onClick={(e) => {
                     e.stopPropagation();
-                    setFocusedIndex(focusedIndex === i ? null : i);
+                    inputBus.emit({ type: 'focus', index: focusedIndex === i ? null : i }, getPointerSource(e.nativeEvent as PointerEvent));
                 }}
                 parentGroup={parentGroup}
             />
@@ -162,6 +210,67 @@ const PhotoContent = ({ url }: { url: string }) => {
     );
 }
 
+// Handwritten caption on the bottom strip of the Polaroid, drawn into a canvas texture
+const CAPTION_FONT = 'Caveat';
+const CAPTION_CANVAS_WIDTH = 512;
+const CAPTION_CANVAS_HEIGHT = 112;
+
+const drawCaption = (canvas: HTMLCanvasElement, caption: string) => {
+    const context = canvas.getContext('2d');
+    if (!context) return;
+
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    if (!caption) return;
+
+    // Shrink the font until the text fits on the strip
+    let fontSize = 72;
+    const maxWidth = canvas.width * 0.92;
+    do {
+        context.font = `700 ${fontSize}px "${CAPTION_FONT}", cursive`;
+        fontSize -= 4;
+    } while (context.measureText(caption).width > maxWidth && fontSize > 24);
+
+    context.fillStyle = '#2a2a3a'; // Ballpoint ink
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.fillText(caption, canvas.width / 2, canvas.height / 2, maxWidth);
+};
+
+const CaptionStrip = ({ caption }: { caption: string }) => {
+    const texture = useMemo(() => {
+        const canvas = document.createElement('canvas');
+        canvas.width = CAPTION_CANVAS_WIDTH;
+        canvas.height = CAPTION_CANVAS_HEIGHT;
+        const tex = new THREE.CanvasTexture(canvas);
+        tex.colorSpace = THREE.SRGBColorSpace;
+        return tex;
+    }, []);
+
+    useEffect(() => {
+        const canvas = texture.image as HTMLCanvasElement;
+        let cancelled = false;
+        const redraw = () => {
+            if (cancelled) return;
+            drawCaption(canvas, caption);
+            texture.needsUpdate = true;
+        };
+
+        redraw();
+        // Draw again once the handwriting web font has arrived, if it wasn't ready yet
+        document.fonts?.load(`700 72px "${CAPTION_FONT}"`).then(redraw).catch(() => {});
+        return () => { cancelled = true; };
+    }, [caption, texture]);
+
+    useEffect(() => () => texture.dispose(), [texture]);
+
+    return (
+        <mesh position={[0, -0.4625, 0.021]}>
+            <planeGeometry args={[0.9, 0.2]} />
+            <meshBasicMaterial map={texture} transparent toneMapped={false} />
+        </mesh>
+    );
+};
+
 // Fallback material for when no photo is uploaded
 const DefaultBlackMirror = () => (
     <meshStandardMaterial 
@@ -177,7 +286,9 @@ const SingleFrame = ({
     progressRef, 
     index, 
     photoUrl,
+    caption,
     isFocused,
+    isHovered,
     onClick,
     parentGroup
 }: { 
@@ -185,8 +296,10 @@ const SingleFrame = ({
     progressRef: any, 
     index: number,
     photoUrl: string | null,
+    caption: string,
     isFocused: boolean,
-    onClick: (e: any) => void,
+    isHovered: boolean,
+    onClick: (e: ThreeEvent<MouseEvent>) => void,
     parentGroup: React.RefObject<THREE.Group | null>
 }) => {
     const groupRef = useRef<THREE.Group>(null);
@@ -194,6 +307,7 @@ const SingleFrame = ({
     const qTarget = useRef(new THREE.Quaternion());
     const vec3Dummy = useMemo(() => new THREE.Vector3(), []);
     const quatDummy = useMemo(() => new THREE.Quaternion(), []);
+    const bodyMaterialRef = useRef<THREE.MeshStandardMaterial>(null);
     
     useMemo(() => {
         qChaos.current.setFromEuler(data.chaosRot);
@@ -219,9 +333,10 @@ const SingleFrame = ({
 
         // 3. Handle Focused State (Override everything)
         if (isFocused && parentGroup.current) {
-            // Target World Position: Directly in front of camera (Camera is at 0, 2, 22)
-            // Let's bring it to 0, 2, 18 (4 units from camera)
-            const targetWorldPos = new THREE.Vector3(0, 2.0, 18);
+            // Target World Position: 4 units straight ahead of the camera, wherever the show has moved it
+            const targetWorldPos = state.camera.getWorldDirection(new THREE.Vector3())
+                .multiplyScalar(4)
+                .add(state.camera.position);
             
             // Convert World Position -> Local Position inside the rotating Tree Group
             // Local = World * ParentInverse
@@ -229,8 +344,7 @@ const SingleFrame = ({
             const targetLocalPos = targetWorldPos.applyMatrix4(parentInverse);
             
             // Target Rotation: We want the frame to face the camera.
-            // In world space, that's roughly looking at (0,2,22) from (0,2,18), i.e. Rotation (0, 0, 0)
-            // But we need to convert that world rotation to local rotation.
+            // That world rotation would need converting to local rotation.
             // An easier trick: Look at camera position transformed into local space.
             const cameraLocalPos = state.camera.position.clone().applyMatrix4(parentInverse);
             
@@ -252,13 +366,21 @@ const SingleFrame = ({
             // Standard Behavior
             groupRef.current.position.lerp(vec3Dummy, 0.1);
             groupRef.current.quaternion.slerp(quatDummy, 0.1);
-            groupRef.current.scale.lerp(new THREE.Vector3(1, 1, 1), 0.1);
+            // Hand-cursor hover lifts the frame slightly so the visitor can see what they are pointing at
+            groupRef.current.scale.lerp(new THREE.Vector3().setScalar(isHovered ? 1.25 : 1), 0.1);
+        }
+
+        if (bodyMaterialRef.current) {
+            bodyMaterialRef.current.emissiveIntensity = THREE.MathUtils.lerp(
+                bodyMaterialRef.current.emissiveIntensity, isHovered ? 0.6 : 0, 0.15
+            );
         }
     });
 
     return (
         <group 
             ref={groupRef} 
+            userData={{ frameIndex: index }} // Lets hand raycasts map a hit mesh back to its frame
             onClick={onClick}
             onPointerOver={() => { document.body.style.cursor = 'pointer' }}
             onPointerOut={() => { document.body.style.cursor = 'auto' }}
@@ -266,7 +388,7 @@ const SingleFrame = ({
             {/* White Polaroid Frame Body */}
             <mesh>
                 <boxGeometry args={[1.0, 1.2, 0.04]} />
-                <meshStandardMaterial color="#f0f0f0" roughness={0.6} />
+                <meshStandardMaterial ref={bodyMaterialRef} color="#f0f0f0" roughness={0.6} emissive="#FFD700" emissiveIntensity={0} />
             </mesh>
             
             {/* Photo Area */}
@@ -275,6 +397,21 @@ const SingleFrame = ({
                 {photoUrl ? <PhotoContent url={photoUrl} /> : <DefaultBlackMirror />}
             </mesh>
             
+            {/* Caption on the bottom strip */}
+            <CaptionStrip caption={caption} />
+
+            {/* Larger caption below the frame while it is zoomed in */}
+            {isFocused && caption && (
+                <Html position={[0, -0.75, 0]} center style={{ pointerEvents: 'none' }}>
+                    <div 
+                        className="whitespace-nowrap text-3xl md:text-4xl text-yellow-100 drop-shadow-[0_2px_6px_rgba(0,0,0,0.9)]"
+                        style={{ fontFamily: `'${CAPTION_FONT}', cursive` }}
+                    >
+                        {caption}
+                    </div>
+                </Html>
+            )}
+
             {/* Gold Clip/Pin visual at top */}
             <mesh position={[0, 0.55, 0.03]} rotation={[0, 0, Math.PI/2]}>
                  <cylinderGeometry args={[0.02, 0.02, 0.2, 8]} />
@@ -0,0 +1,51 @@
+import React from 'react';
+import { SLIDESHOW_DWELL_OPTIONS, Slideshow } from '../hooks/useSlideshow';
+
+interface PhotoNavigatorProps {
+  focusedIndex: number;
+  count: number;
+  slideshow: Slideshow;
+  onStep: (direction: 1 | -1) => void;
+  onClose: () => void;
+}
+
+const arrowClass = "px-4 py-2 text-2xl leading-none text-[color:var(--accent)] hover:text-[color:var(--accent-bright)] hover:bg-white/10 transition-colors";
+
+// Previous/next arrows and slideshow transport, shown while a photo is zoomed in
+export const PhotoNavigator: React.FC<PhotoNavigatorProps> = ({ focusedIndex, count, slideshow, onStep, onClose }) => (
+  <div className="pointer-events-auto flex items-center gap-1 bg-black/60 backdrop-blur-md border border-white/10 rounded-full px-2 py-1">
+    <button onClick={() => onStep(-1)} className={arrowClass} aria-label="Previous photo">‹</button>
+    <span className="min-w-[5rem] text-center text-white/80 font-mono text-xs">
+      {focusedIndex + 1} / {count}
+    </span>
+    <button onClick={() => onStep(1)} className={arrowClass} aria-label="Next photo">›</button>
+
+    <span className="w-px h-6 bg-white/10 mx-1" />
+
+    <button
+      onClick={slideshow.isPlaying ? slideshow.pause : slideshow.play}
+      className="px-3 py-1 text-[color:var(--accent)] text-[10px] uppercase tracking-widest hover:text-[color:var(--accent-bright)] transition-colors"
+      aria-pressed={slideshow.isPlaying}
+    >
+      {slideshow.isPlaying ? '❚❚ Pause' : '▶ Slideshow'}
+    </button>
+    <select
+      value={slideshow.dwell}
+      onChange={(e) => slideshow.setDwell(Number(e.target.value))}
+      className="bg-transparent text-white/70 text-xs outline-none cursor-pointer"
+      aria-label="Seconds per photo"
+    >
+      {SLIDESHOW_DWELL_OPTIONS.map(seconds => (
+        <option key={seconds} value={seconds} className="bg-black">{seconds}s</option>
+      ))}
+    </select>
+
+    <button 
+      onClick={onClose} 
+      className="text-white/50 hover:text-white text-lg leading-none px-3"
+      aria-label="Close photo"
+    >
+      ×
+    </button>
+  </div>
+);
@@ -0,0 +1,64 @@
+import React, { useEffect, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+
+export interface PosterRenderer {
+  maxDimension: number; // Largest width or height the GPU can render in one pass
+  render: (width: number, height: number) => Promise<HTMLCanvasElement>;
+}
+
+interface PosterCaptureProps {
+  rendererRef: React.MutableRefObject<PosterRenderer | null>;
+}
+
+// Frames to wait after resizing: React re-renders the camera aspect, then the composer resizes its buffers
+const SETTLE_FRAMES = 4;
+
+// Lives inside the Canvas and renders the live scene once at an arbitrary size.
+// The drawing buffer is grown temporarily, so post-processing is included exactly as on screen.
+export const PosterCapture: React.FC<PosterCaptureProps> = ({ rendererRef }) => {
+  const get = useThree(state => state.get);
+  const pending = useRef<{ framesLeft: number; resolve: (canvas: HTMLCanvasElement) => void } | null>(null);
+
+  useEffect(() => {
+    const render = async (width: number, height: number) => {
+      const state = get();
+      const { width: prevWidth, height: prevHeight, top, left } = state.size;
+      const prevDpr = state.viewport.dpr;
+
+      state.setDpr(1);
+      state.setSize(width, height, top, left);
+      try {
+        return await new Promise<HTMLCanvasElement>(resolve => {
+          pending.current = { framesLeft: SETTLE_FRAMES, resolve };
+        });
+      } finally {
+        state.setSize(prevWidth, prevHeight, top, left);
+        state.setDpr(prevDpr);
+      }
+    };
+
+    const gl = get().gl;
+    const viewport = gl.getContext().getParameter(gl.getContext().MAX_VIEWPORT_DIMS) as Int32Array;
+    rendererRef.current = {
+      maxDimension: Math.min(gl.capabilities.maxTextureSize, viewport[0], viewport[1]),
+      render
+    };
+    return () => { rendererRef.current = null; };
+  }, [get, rendererRef]);
+
+  // Runs after the EffectComposer (priority 1) so the buffer holds the finished frame.
+  // Copying within the same frame avoids needing preserveDrawingBuffer.
+  useFrame(({ gl }) => {
+    const job = pending.current;
+    if (!job || --job.framesLeft > 0) return;
+    pending.current = null;
+
+    const snapshot = document.createElement('canvas');
+    snapshot.width = gl.domElement.width;
+    snapshot.height = gl.domElement.height;
+    snapshot.getContext('2d')!.drawImage(gl.domElement, 0, 0);
+    job.resolve(snapshot);
+  }, 2);
+
+  return null;
+};
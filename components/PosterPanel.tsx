@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { POSTER_SIZES, POSTER_SUPERSAMPLING, PosterOptions } from '../utils/poster';
+
+interface PosterPanelProps {
+  onSave: (options: PosterOptions) => Promise<boolean>;
+  onClose: () => void;
+}
+
+// Options for re-rendering the scene as a print-quality PNG
+export const PosterPanel: React.FC<PosterPanelProps> = ({ onSave, onClose }) => {
+  const [sizeId, setSizeId] = useState(POSTER_SIZES[1].id);
+  const [supersample, setSupersample] = useState(2);
+  const [includeTitle, setIncludeTitle] = useState(true);
+  const [transparent, setTransparent] = useState(false);
+  const [status, setStatus] = useState<'idle' | 'rendering' | 'failed'>('idle');
+
+  const handleSave = async () => {
+    const size = POSTER_SIZES.find(s => s.id === sizeId) ?? POSTER_SIZES[0];
+    setStatus('rendering');
+    const saved = await onSave({ size, supersample, includeTitle, transparent });
+    setStatus(saved ? 'idle' : 'failed');
+  };
+
+  return (
+    <div className="pointer-events-auto w-[min(90vw,28rem)] bg-black/70 backdrop-blur-md border border-white/10 rounded-xl p-4 shadow-[0_0_30px_rgba(255,215,0,0.15)]">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-[color:var(--accent)] text-sm uppercase tracking-widest transition-colors duration-1000">
+          Save Poster
+        </h3>
+        <button 
+          onClick={onClose} 
+          className="text-white/50 hover:text-white text-lg leading-none px-2"
+          aria-label="Close poster export"
+        >
+          ×
+        </button>
+      </div>
+
+      <select
+        value={sizeId}
+        onChange={(e) => setSizeId(e.target.value)}
+        disabled={status === 'rendering'}
+        className="w-full bg-black/50 border border-white/20 rounded p-2 text-white text-sm outline-none focus:border-[color:var(--accent)] mb-3"
+      >
+        {POSTER_SIZES.map(size => (
+          <option key={size.id} value={size.id}>{size.label}</option>
+        ))}
+      </select>
+
+      <div className="flex items-center gap-2 mb-3">
+        <span className="w-24 text-white/50 text-[10px] uppercase tracking-widest">Supersample</span>
+        {POSTER_SUPERSAMPLING.map(factor => (
+          <button
+            key={factor}
+            onClick={() => setSupersample(factor)}
+            disabled={status === 'rendering'}
+            className={`px-3 py-1 rounded border text-xs transition-colors ${supersample === factor ? 'border-white/70 bg-white/10 text-white' : 'border-white/10 text-white/60 hover:border-white/40'}`}
+          >
+            {factor}×
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-col gap-2 mb-3">
+        <label className="flex items-center gap-2 text-white/70 text-[10px] uppercase tracking-widest cursor-pointer">
+          <input type="checkbox" checked={includeTitle} onChange={(e) => setIncludeTitle(e.target.checked)} />
+          Include title and greeting
+        </label>
+        <label className="flex items-center gap-2 text-white/70 text-[10px] uppercase tracking-widest cursor-pointer">
+          <input type="checkbox" checked={transparent} onChange={(e) => setTransparent(e.target.checked)} />
+          Transparent background
+        </label>
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={status === 'rendering'}
+        className="w-full py-2 border border-[color:var(--accent)] text-[color:var(--accent)] text-xs uppercase tracking-widest hover:bg-white/10 disabled:opacity-40 transition-colors"
+      >
+        {status === 'rendering' ? 'Rendering…' : 'Save PNG'}
+      </button>
+      {status === 'failed' && (
+        <p className="text-red-300/80 text-[10px] uppercase tracking-widest mt-2">
+          The poster could not be rendered. Try a smaller size.
+        </p>
+      )}
+    </div>
+  );
+};
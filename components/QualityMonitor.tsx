@@ -0,0 +1,72 @@
+import React, { useEffect, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { QualityTier } from '../types';
+import { stepQualityTier } from '../utils/quality';
+
+interface QualityMonitorProps {
+  enabled: boolean;
+  tier: QualityTier;
+  onTierChange: (tier: QualityTier) => void;
+}
+
+// Frame-time budget: below ~45fps we step down, sustained ~58fps+ lets us step back up
+const DOWNGRADE_FRAME_MS = 1000 / 45;
+const UPGRADE_FRAME_MS = 1000 / 58;
+const SAMPLE_FRAMES = 90;
+const UPGRADE_WINDOWS = 4; // Consecutive good windows required before stepping up
+const SETTLE_SECONDS = 3; // Ignore the hitch caused by rebuilding buffers after a change
+const MAX_DELTA_SECONDS = 0.25; // Longer gaps are tab switches, not slow frames
+
+// Lives inside the Canvas and samples frame times to pick a quality tier automatically
+export const QualityMonitor: React.FC<QualityMonitorProps> = ({ enabled, tier, onTierChange }) => {
+  const samples = useRef<number[]>([]);
+  const goodWindows = useRef(0);
+  const settleTime = useRef(SETTLE_SECONDS);
+  // A tier we had to leave for being too slow is never re-entered automatically, to avoid oscillating
+  const ceiling = useRef<QualityTier | null>(null);
+
+  useEffect(() => {
+    ceiling.current = null;
+  }, [enabled]);
+
+  useEffect(() => {
+    samples.current = [];
+    goodWindows.current = 0;
+    settleTime.current = SETTLE_SECONDS;
+  }, [tier, enabled]);
+
+  useFrame((_, delta) => {
+    if (!enabled || delta > MAX_DELTA_SECONDS) return;
+
+    if (settleTime.current > 0) {
+      settleTime.current -= delta;
+      return;
+    }
+
+    samples.current.push(delta * 1000);
+    if (samples.current.length < SAMPLE_FRAMES) return;
+
+    const average = samples.current.reduce((sum, ms) => sum + ms, 0) / samples.current.length;
+    samples.current = [];
+
+    if (average > DOWNGRADE_FRAME_MS) {
+      goodWindows.current = 0;
+      const next = stepQualityTier(tier, -1);
+      if (next !== tier) {
+        ceiling.current = tier;
+        onTierChange(next);
+      }
+    } else if (average < UPGRADE_FRAME_MS) {
+      goodWindows.current += 1;
+      if (goodWindows.current >= UPGRADE_WINDOWS) {
+        goodWindows.current = 0;
+        const next = stepQualityTier(tier, 1);
+        if (next !== tier && next !== ceiling.current) onTierChange(next);
+      }
+    } else {
+      goodWindows.current = 0;
+    }
+  });
+
+  return null;
+};
@@ -1,16 +1,23 @@
 import React, { useMemo, useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { CONSTANTS, THEME, TreeState } from '../types';
+import { CONSTANTS, THEME, ThemePalette, TreeState } from '../types';
+import { useColorFade } from '../hooks/useColorFade';
 
 interface RibbonProps {
   progressRef: React.MutableRefObject<number>;
   state: TreeState;
+  theme?: ThemePalette;
+  // False for formations the spiral doesn't suit
+  enabled?: boolean;
+  animate?: boolean; // Off in reduced-motion mode: the ribbon holds still
 }
 
-export const Ribbon: React.FC<RibbonProps> = ({ progressRef, state }) => {
+export const Ribbon: React.FC<RibbonProps> = ({ progressRef, state, theme = THEME, enabled = true, animate = true }) => {
   const meshRef = useRef<THREE.Mesh>(null);
   const materialRef = useRef<THREE.MeshStandardMaterial>(null);
+  const fadedColor = useColorFade(theme.goldHighlight);
+  const fadedEmissive = useColorFade(theme.gold);
 
   const curve = useMemo(() => {
     const points: THREE.Vector3[] = [];
@@ -58,10 +65,15 @@ export const Ribbon: React.FC<RibbonProps> = ({ progressRef, state }) => {
         // Strict State Visibility:
         // CHAOS -> Immediately Hidden
         // FORMED -> Immediately Visible (animated by scale)
-        meshRef.current.visible = state === TreeState.FORMED;
+        meshRef.current.visible = enabled && state === TreeState.FORMED;
 
         // Subtle floating rotation
-        meshRef.current.rotation.y += 0.003;
+        if (animate) meshRef.current.rotation.y += 0.003;
+    }
+
+    if (materialRef.current) {
+        materialRef.current.color.copy(fadedColor);
+        materialRef.current.emissive.copy(fadedEmissive);
     }
   });
 
@@ -71,8 +83,6 @@ export const Ribbon: React.FC<RibbonProps> = ({ progressRef, state }) => {
       <tubeGeometry args={[curve, 600, 0.005, 6, false]} />
       <meshStandardMaterial 
         ref={materialRef}
-        color={THEME.goldHighlight}
-        emissive={THEME.gold}
         emissiveIntensity={3.0} // High emissive to make thin wire glow
         metalness={1}
         roughness={0.0}
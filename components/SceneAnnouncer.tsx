@@ -0,0 +1,61 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TreeState, UserPhoto } from '../types';
+
+interface SceneAnnouncerProps {
+  state: TreeState;
+  formationName: string;
+  focusedPhotoIndex: number | null;
+  photoCount: number;
+  userPhotos: UserPhoto[];
+  reducedMotion: boolean;
+}
+
+// Visually hidden live region narrating what the canvas shows, for screen-reader users.
+// Only changes are announced; the initial scene is described by the canvas label.
+export const SceneAnnouncer: React.FC<SceneAnnouncerProps> = ({ 
+  state, 
+  formationName, 
+  focusedPhotoIndex, 
+  photoCount, 
+  userPhotos, 
+  reducedMotion 
+}) => {
+  const [message, setMessage] = useState('');
+  // Compared against rather than flagging the first render, so StrictMode's repeated effects announce nothing
+  const previous = useRef({ state, formationName, focusedPhotoIndex, reducedMotion });
+
+  useEffect(() => {
+    const prev = previous.current;
+    previous.current = { state, formationName, focusedPhotoIndex, reducedMotion };
+    // When several things change at once, the later announcements win
+    let next: string | null = null;
+
+    if (state !== prev.state) {
+      next = state === TreeState.FORMED ? `Particles assembled into ${formationName}.` : 'Particles scattered.';
+    } else if (formationName !== prev.formationName && state === TreeState.FORMED) {
+      next = `Shape changed to ${formationName}.`;
+    }
+
+    if (focusedPhotoIndex !== prev.focusedPhotoIndex) {
+      if (focusedPhotoIndex === null) {
+        next = 'Photo closed.';
+      } else {
+        // Frames beyond the uploaded photos show placeholders
+        const caption = userPhotos.length > 0 ? userPhotos[focusedPhotoIndex % userPhotos.length].caption : '';
+        next = `Photo ${focusedPhotoIndex + 1} of ${photoCount}${caption ? `: ${caption}` : ''}.`;
+      }
+    }
+
+    if (reducedMotion !== prev.reducedMotion) {
+      next = reducedMotion ? 'Reduced motion on.' : 'Reduced motion off.';
+    }
+
+    if (next !== null) setMessage(next);
+  }, [state, formationName, focusedPhotoIndex, reducedMotion]);
+
+  return (
+    <div className="sr-only" role="status" aria-live="polite" aria-atomic="true">
+      {message}
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import React, { useRef, useState } from 'react';
+import { SceneText } from '../types';
+import { TEXT_FONTS } from '../utils/rasterize';
+
+interface ShapeDesignerProps {
+  sceneText?: SceneText;
+  onSpellText: (content: string, font: string) => void;
+  onLogoUpload: (file: File) => void;
+  onClose: () => void;
+}
+
+// Panel for turning typed text or an uploaded logo silhouette into a formation
+export const ShapeDesigner: React.FC<ShapeDesignerProps> = ({ sceneText, onSpellText, onLogoUpload, onClose }) => {
+  const [content, setContent] = useState(sceneText?.content ?? 'Merry Christmas');
+  const [font, setFont] = useState(sceneText?.font ?? TEXT_FONTS[0].css);
+  const logoInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="pointer-events-auto w-[min(90vw,28rem)] bg-black/70 backdrop-blur-md border border-white/10 rounded-xl p-4 shadow-[0_0_30px_rgba(255,215,0,0.15)]">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-[color:var(--accent)] text-sm uppercase tracking-widest transition-colors duration-1000">
+          Spell With Particles
+        </h3>
+        <button 
+          onClick={onClose} 
+          className="text-white/50 hover:text-white text-lg leading-none px-2"
+          aria-label="Close shape designer"
+        >
+          ×
+        </button>
+      </div>
+
+      <textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        rows={2}
+        maxLength={80}
+        placeholder="One line per row"
+        className="w-full bg-black/50 border border-white/20 rounded p-2 text-white text-sm outline-none focus:border-[color:var(--accent)] resize-none"
+        style={{ fontFamily: font }}
+      />
+
+      <div className="flex flex-wrap gap-2 mt-2 mb-3">
+        {TEXT_FONTS.map(option => (
+          <button
+            key={option.label}
+            onClick={() => setFont(option.css)}
+            className={`px-3 py-1 rounded border text-xs transition-colors ${font === option.css ? 'border-white/70 bg-white/10 text-white' : 'border-white/10 text-white/60 hover:border-white/40'}`}
+            style={{ fontFamily: option.css }}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-3">
+        <button
+          onClick={() => content.trim() && onSpellText(content, font)}
+          disabled={!content.trim()}
+          className="flex-1 py-2 border border-[color:var(--accent)] text-[color:var(--accent)] text-xs uppercase tracking-widest hover:bg-white/10 disabled:opacity-40 transition-colors"
+        >
+          Spell It
+        </button>
+        <button
+          onClick={() => logoInputRef.current?.click()}
+          className="flex-1 py-2 border border-emerald-600 text-emerald-400 text-xs uppercase tracking-widest hover:bg-emerald-900/40 transition-colors"
+        >
+          Upload Logo
+        </button>
+        <input
+          ref={logoInputRef}
+          type="file"
+          accept="image/png,image/svg+xml"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onLogoUpload(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      <p className="text-white/40 text-[10px] uppercase tracking-widest mt-2">
+        Logos: transparent PNG or SVG silhouettes work best
+      </p>
+    </div>
+  );
+};
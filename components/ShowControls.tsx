@@ -0,0 +1,130 @@
+import React, { useRef, useState } from 'react';
+import { ShowScript } from '../types';
+import { ShowPlayer } from '../hooks/useShowPlayer';
+
+interface ShowControlsProps {
+  script: ShowScript;
+  player: ShowPlayer;
+  isRecording: boolean;
+  onLoadScript: (file: File) => Promise<boolean>;
+  onLoadDemo: () => void;
+  onToggleRecording: () => void;
+  onDownload: () => void;
+  onClose: () => void;
+}
+
+const formatTime = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+// Transport for show mode: load a script, play/pause/loop/scrub it, or record a new one live
+export const ShowControls: React.FC<ShowControlsProps> = ({ 
+  script, 
+  player, 
+  isRecording, 
+  onLoadScript, 
+  onLoadDemo, 
+  onToggleRecording, 
+  onDownload, 
+  onClose 
+}) => {
+  const scriptInputRef = useRef<HTMLInputElement>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  return (
+    <div className="pointer-events-auto w-[min(90vw,32rem)] bg-black/70 backdrop-blur-md border border-white/10 rounded-xl p-4 shadow-[0_0_30px_rgba(255,215,0,0.15)]">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-[color:var(--accent)] text-sm uppercase tracking-widest transition-colors duration-1000">
+          Show <span className="text-white/50 font-mono text-xs normal-case">— {script.name}</span>
+        </h3>
+        <button 
+          onClick={onClose} 
+          className="text-white/50 hover:text-white text-lg leading-none px-2"
+          aria-label="Close show controls"
+        >
+          ×
+        </button>
+      </div>
+
+      {/* Transport */}
+      <div className="flex items-center gap-3 mb-3">
+        <button
+          onClick={player.isPlaying ? player.pause : player.play}
+          disabled={isRecording || script.keyframes.length === 0}
+          className="w-20 py-1.5 border border-[color:var(--accent)] text-[color:var(--accent)] text-xs uppercase tracking-widest hover:bg-white/10 disabled:opacity-40 transition-colors"
+        >
+          {player.isPlaying ? 'Pause' : 'Play'}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={script.duration}
+          step={0.1}
+          value={player.time}
+          disabled={isRecording}
+          onChange={(e) => player.seek(Number(e.target.value))}
+          className="flex-1 accent-[color:var(--accent)] cursor-pointer"
+          aria-label="Show position"
+        />
+        <span className="text-white/60 font-mono text-xs w-20 text-right">
+          {formatTime(player.time)} / {formatTime(script.duration)}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-2 px-3 py-1 border border-white/10 text-white/70 text-[10px] uppercase tracking-widest cursor-pointer">
+          <input 
+            type="checkbox" 
+            checked={player.loop} 
+            onChange={(e) => player.setLoop(e.target.checked)} 
+          />
+          Loop
+        </label>
+        <button
+          onClick={onToggleRecording}
+          className={`px-3 py-1 border text-[10px] uppercase tracking-widest transition-colors ${isRecording ? 'border-red-500 bg-red-900/40 text-red-200 animate-pulse' : 'border-white/10 text-white/70 hover:border-white/40'}`}
+        >
+          {isRecording ? '■ Stop Recording' : '● Record'}
+        </button>
+        <button
+          onClick={() => scriptInputRef.current?.click()}
+          disabled={isRecording}
+          className="px-3 py-1 border border-white/10 text-white/70 text-[10px] uppercase tracking-widest hover:border-white/40 disabled:opacity-40 transition-colors"
+        >
+          Load JSON
+        </button>
+        <button
+          onClick={onLoadDemo}
+          disabled={isRecording}
+          className="px-3 py-1 border border-white/10 text-white/70 text-[10px] uppercase tracking-widest hover:border-white/40 disabled:opacity-40 transition-colors"
+        >
+          Demo
+        </button>
+        <button
+          onClick={onDownload}
+          disabled={isRecording || script.keyframes.length === 0}
+          className="px-3 py-1 border border-white/10 text-white/70 text-[10px] uppercase tracking-widest hover:border-white/40 disabled:opacity-40 transition-colors"
+        >
+          Download
+        </button>
+        <input
+          ref={scriptInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={async (e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) setLoadFailed(!(await onLoadScript(file)));
+          }}
+        />
+      </div>
+      {loadFailed && (
+        <p className="text-red-300/80 text-[10px] uppercase tracking-widest mt-2">
+          That file is not a valid show script
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,136 @@
+import React, { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { CONSTANTS } from '../types';
+import { createRandom, RANDOM_STREAMS } from '../utils/random';
+
+interface SnowfallProps {
+  count?: number;
+  seed?: number;
+  wind?: number; // 0-1
+  floorY?: number;
+  pointScale?: number;
+  turbulence?: boolean; // Off in reduced-motion mode: flakes fall straight, without gusts or sway
+}
+
+// Flakes live in a box around the tree and wrap around its edges, so the sky never runs out
+const AREA_WIDTH = 44;
+const AREA_HEIGHT = 26;
+// Sideways speed at full wind, in units per second
+const MAX_WIND_SPEED = 4;
+
+const SnowShaderMaterial = {
+  uniforms: {
+    uTime: { value: 0 },
+    uWindOffset: { value: 0 },
+    uSway: { value: 1 },
+    uFloorY: { value: 0 },
+    uPointScale: { value: 1 },
+  },
+  vertexShader: `
+    uniform float uTime;
+    uniform float uWindOffset;
+    uniform float uSway;
+    uniform float uFloorY;
+    uniform float uPointScale;
+    attribute float aSpeed;
+    attribute float aPhase;
+    attribute float aSize;
+
+    varying float vAlpha;
+
+    const float AREA_WIDTH = ${AREA_WIDTH.toFixed(1)};
+    const float AREA_HEIGHT = ${AREA_HEIGHT.toFixed(1)};
+
+    void main() {
+      vec3 pos = position;
+
+      // Everything is a function of time, so the CPU never touches the flakes after creation
+      pos.y = uFloorY + mod(position.y - uTime * aSpeed, AREA_HEIGHT);
+      // Lighter (slower) flakes are carried further by the wind
+      pos.x += uWindOffset * (1.3 - aSpeed * 0.5);
+      pos.x += uSway * sin(uTime * 0.9 + aPhase) * 0.5;
+      pos.z += uSway * cos(uTime * 0.7 + aPhase * 1.7) * 0.5;
+      pos.x = mod(pos.x + AREA_WIDTH * 0.5, AREA_WIDTH) - AREA_WIDTH * 0.5;
+
+      // Fade in at the top of the box and out just above the floor, hiding the wrap
+      float height = pos.y - uFloorY;
+      vAlpha = smoothstep(0.0, 0.6, height) * (1.0 - smoothstep(AREA_HEIGHT - 3.0, AREA_HEIGHT, height));
+
+      vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
+      gl_Position = projectionMatrix * mvPosition;
+      // Size attenuation, capped so flakes drifting past the lens don't fill the screen
+      gl_PointSize = min(aSize * (20.0 / -mvPosition.z), 24.0) * uPointScale;
+    }
+  `,
+  fragmentShader: `
+    varying float vAlpha;
+
+    void main() {
+      float dist = length(gl_PointCoord - vec2(0.5));
+      if (dist > 0.5) discard;
+
+      // Kept below the bloom threshold so snow reads as soft flakes rather than sparks
+      float alpha = smoothstep(0.5, 0.1, dist) * vAlpha * 0.8;
+      gl_FragColor = vec4(vec3(0.8, 0.85, 0.9), alpha);
+    }
+  `
+};
+
+export const Snowfall: React.FC<SnowfallProps> = ({
+  count = CONSTANTS.SNOW_COUNT,
+  seed = 0,
+  wind = 0.3,
+  floorY = 0,
+  pointScale = 1,
+  turbulence = true
+}) => {
+  const shaderRef = useRef<THREE.ShaderMaterial>(null);
+  const windOffset = useRef(0);
+
+  const attributes = useMemo(() => {
+    const random = createRandom(seed, RANDOM_STREAMS.snow);
+    const positions = new Float32Array(count * 3);
+    const speeds = new Float32Array(count);
+    const phases = new Float32Array(count);
+    const sizes = new Float32Array(count);
+
+    for (let i = 0; i < count; i++) {
+      positions[i * 3] = (random() - 0.5) * AREA_WIDTH;
+      positions[i * 3 + 1] = random() * AREA_HEIGHT;
+      positions[i * 3 + 2] = (random() - 0.5) * AREA_WIDTH;
+      speeds[i] = 0.6 + random() * 0.9;
+      phases[i] = random() * Math.PI * 2;
+      sizes[i] = 2 + random() * 4;
+    }
+    return { positions, speeds, phases, sizes };
+  }, [count, seed]);
+
+  useFrame((state, delta) => {
+    const time = state.clock.elapsedTime;
+    // Integrated on the CPU so gusts speed the flakes up and slow them down without jumps
+    const gust = turbulence ? 1 + 0.5 * Math.sin(time * 0.35) + 0.25 * Math.sin(time * 1.3) : 1;
+    windOffset.current = (windOffset.current + wind * gust * MAX_WIND_SPEED * delta) % AREA_WIDTH;
+
+    if (shaderRef.current) {
+      shaderRef.current.uniforms.uTime.value = time;
+      shaderRef.current.uniforms.uWindOffset.value = windOffset.current;
+      shaderRef.current.uniforms.uSway.value = turbulence ? 1 : 0;
+      shaderRef.current.uniforms.uFloorY.value = floorY;
+      shaderRef.current.uniforms.uPointScale.value = pointScale;
+    }
+  });
+
+  return (
+    <points frustumCulled={false}>
+      {/* Keyed by count so a quality change rebuilds the GPU buffers at the new size */}
+      <bufferGeometry key={count}>
+        <bufferAttribute attach="attributes-position" count={count} array={attributes.positions} itemSize={3} />
+        <bufferAttribute attach="attributes-aSpeed" count={count} array={attributes.speeds} itemSize={1} />
+        <bufferAttribute attach="attributes-aPhase" count={count} array={attributes.phases} itemSize={1} />
+        <bufferAttribute attach="attributes-aSize" count={count} array={attributes.sizes} itemSize={1} />
+      </bufferGeometry>
+      <shaderMaterial ref={shaderRef} args={[SnowShaderMaterial]} transparent depthWrite={false} />
+    </points>
+  );
+};
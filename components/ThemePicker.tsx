@@ -0,0 +1,79 @@
+import React from 'react';
+import { ThemePalette } from '../types';
+import { findThemePreset, THEME_PRESETS } from '../utils/themes';
+
+interface ThemePickerProps {
+  theme: ThemePalette;
+  onChange: (theme: ThemePalette) => void;
+  onClose: () => void;
+}
+
+// Colour roles exposed in the custom picker, in the order they read on the tree
+const CUSTOM_FIELDS: { key: keyof ThemePalette; label: string }[] = [
+  { key: 'emerald', label: 'Foliage' },
+  { key: 'gold', label: 'Gold' },
+  { key: 'goldHighlight', label: 'Highlight' },
+  { key: 'red', label: 'Baubles' },
+  { key: 'warmWhite', label: 'Glow' }
+];
+
+export const ThemePicker: React.FC<ThemePickerProps> = ({ theme, onChange, onClose }) => {
+  const activePreset = findThemePreset(theme);
+
+  return (
+    <div className="pointer-events-auto w-[min(90vw,32rem)] bg-black/70 backdrop-blur-md border border-white/10 rounded-xl p-4 shadow-[0_0_30px_rgba(255,215,0,0.15)]">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-[color:var(--accent)] text-sm uppercase tracking-widest transition-colors duration-1000">
+          Theme <span className="text-white/50 font-mono text-xs normal-case">— {activePreset ? activePreset.name : 'Custom'}</span>
+        </h3>
+        <button 
+          onClick={onClose} 
+          className="text-white/50 hover:text-white text-lg leading-none px-2"
+          aria-label="Close theme picker"
+        >
+          ×
+        </button>
+      </div>
+
+      {/* Presets */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-4">
+        {THEME_PRESETS.map(preset => (
+          <button
+            key={preset.id}
+            onClick={() => onChange(preset.palette)}
+            className={`
+              flex flex-col items-center gap-2 p-2 rounded-lg border transition-all duration-300
+              ${activePreset?.id === preset.id ? 'border-white/70 bg-white/10' : 'border-white/10 hover:border-white/40'}
+            `}
+          >
+            <div className="flex -space-x-1">
+              {[preset.palette.emerald, preset.palette.gold, preset.palette.goldHighlight, preset.palette.red].map((color, i) => (
+                <span 
+                  key={i} 
+                  className="w-5 h-5 rounded-full border border-black/50" 
+                  style={{ backgroundColor: color }} 
+                />
+              ))}
+            </div>
+            <span className="text-white/80 text-[10px] uppercase tracking-widest">{preset.name}</span>
+          </button>
+        ))}
+      </div>
+
+      {/* Custom Colours */}
+      <div className="flex flex-wrap justify-center gap-4">
+        {CUSTOM_FIELDS.map(({ key, label }) => (
+          <label key={key} className="flex flex-col items-center gap-1 cursor-pointer">
+            <input
+              type="color"
+              value={theme[key]}
+              onChange={(e) => onChange({ ...theme, [key]: e.target.value })}
+              className="w-9 h-9 bg-transparent border border-white/20 rounded cursor-pointer"
+            />
+            <span className="text-white/60 text-[10px] uppercase tracking-widest">{label}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
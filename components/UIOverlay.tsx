@@ -1,37 +1,320 @@
-import React, { useRef } from 'react';
-import { TreeState } from '../types';
+import React, { useRef, useState } from 'react';
+import { FairyLights, GestureBindings, GestureTuning, Greeting, QualityMode, QualityTier, SceneText, ShowScript, ThemePalette, TreeState, UserPhoto, WinterScene } from '../types';
+import { QUALITY_LABELS, QUALITY_TIERS } from '../utils/quality';
+import { PhotoAlbum } from './PhotoAlbum';
+import { ThemePicker } from './ThemePicker';
+import { ShapeDesigner } from './ShapeDesigner';
+import { ShowControls } from './ShowControls';
+import { ShowPlayer } from '../hooks/useShowPlayer';
+import { VideoRecordPanel } from './VideoRecordPanel';
+import { VideoRecorder } from '../hooks/useVideoRecorder';
+import { PosterPanel } from './PosterPanel';
+import { PosterOptions } from '../utils/poster';
+import { GreetingEditor } from './GreetingEditor';
+import { GreetingReveal } from './GreetingReveal';
+import { PhotoNavigator } from './PhotoNavigator';
+import { Slideshow } from '../hooks/useSlideshow';
+import { GestureBindingsPanel } from './GestureBindingsPanel';
+import { describeGestureBindings } from '../utils/gestures';
+import { HandSessionPanel } from './HandSessionPanel';
+import { HandSession } from '../hooks/useHandSession';
+import { AudioPanel } from './AudioPanel';
+import { AudioController } from '../hooks/useAudio';
+import { FairyLightsPanel } from './FairyLightsPanel';
+import { WinterPanel } from './WinterPanel';
 
 interface UIOverlayProps {
   state: TreeState;
   onToggle: () => void;
+  formationName: string;
+  onCycleFormation: (direction: 1 | -1) => void;
   onUpload: (files: FileList | null) => void;
+  photos: UserPhoto[];
+  onRemovePhoto: (id: string) => void;
+  onClearPhotos: () => void;
+  onMovePhoto: (from: number, to: number) => void;
+  onCaptionChange: (id: string, caption: string) => void;
+  onShare: () => Promise<boolean>;
+  greeting: Greeting;
+  onGreetingChange: (greeting: Greeting) => void;
+  theme: ThemePalette;
+  onThemeChange: (theme: ThemePalette) => void;
+  lights: FairyLights;
+  onLightsChange: (lights: FairyLights) => void;
+  winter: WinterScene;
+  onWinterChange: (winter: WinterScene) => void;
+  sceneText?: SceneText;
+  onSpellText: (content: string, font: string) => void;
+  onLogoUpload: (file: File) => void;
+  qualityMode: QualityMode;
+  qualityTier: QualityTier;
+  onQualityModeChange: (mode: QualityMode) => void;
+  showScript: ShowScript;
+  showPlayer: ShowPlayer;
+  isShowRecording: boolean;
+  onLoadShowScript: (file: File) => Promise<boolean>;
+  onLoadDemoShow: () => void;
+  onToggleShowRecording: () => void;
+  onDownloadShow: () => void;
+  videoRecorder: VideoRecorder;
+  onDownloadVideo: (video: Blob) => void;
+  onSavePoster: (options: PosterOptions) => Promise<boolean>;
+  reducedMotion: boolean;
+  onReducedMotionChange: (reduced: boolean) => void;
+  focusedPhotoIndex: number | null;
+  photoCount: number;
+  onStepPhoto: (direction: 1 | -1) => void;
+  onClosePhoto: () => void;
+  slideshow: Slideshow;
+  onStartSlideshow: () => void;
+  gestureBindings: GestureBindings;
+  onGestureBindingsChange: (bindings: GestureBindings) => void;
+  onResetGestureBindings: () => void;
+  gestureTuning: GestureTuning;
+  onGestureTuningChange: (tuning: GestureTuning) => void;
+  isCalibrating: boolean;
+  calibrationFailed: boolean;
+  onCalibrate: () => void;
+  handSession: HandSession;
+  onStopHandRecording: () => void;
+  audio: AudioController;
 }
 
-export const UIOverlay: React.FC<UIOverlayProps> = ({ state, onToggle, onUpload }) => {
+export const UIOverlay: React.FC<UIOverlayProps> = ({ 
+  state, 
+  onToggle, 
+  formationName,
+  onCycleFormation,
+  onUpload,
+  photos,
+  onRemovePhoto,
+  onClearPhotos,
+  onMovePhoto,
+  onCaptionChange,
+  onShare,
+  greeting,
+  onGreetingChange,
+  theme,
+  onThemeChange,
+  lights,
+  onLightsChange,
+  winter,
+  onWinterChange,
+  sceneText,
+  onSpellText,
+  onLogoUpload,
+  qualityMode,
+  qualityTier,
+  onQualityModeChange,
+  showScript,
+  showPlayer,
+  isShowRecording,
+  onLoadShowScript,
+  onLoadDemoShow,
+  onToggleShowRecording,
+  onDownloadShow,
+  videoRecorder,
+  onDownloadVideo,
+  onSavePoster,
+  reducedMotion,
+  onReducedMotionChange,
+  focusedPhotoIndex,
+  photoCount,
+  onStepPhoto,
+  onClosePhoto,
+  slideshow,
+  onStartSlideshow,
+  gestureBindings,
+  onGestureBindingsChange,
+  onResetGestureBindings,
+  gestureTuning,
+  onGestureTuningChange,
+  isCalibrating,
+  calibrationFailed,
+  onCalibrate,
+  handSession,
+  onStopHandRecording,
+  audio
+}) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isAlbumOpen, setIsAlbumOpen] = useState(false);
+  const [isThemeOpen, setIsThemeOpen] = useState(false);
+  const [isLightsOpen, setIsLightsOpen] = useState(false);
+  const [isWinterOpen, setIsWinterOpen] = useState(false);
+  const [isDesignerOpen, setIsDesignerOpen] = useState(false);
+  const [isShowOpen, setIsShowOpen] = useState(false);
+  const [isVideoOpen, setIsVideoOpen] = useState(false);
+  const [isPosterOpen, setIsPosterOpen] = useState(false);
+  const [isGreetingOpen, setIsGreetingOpen] = useState(false);
+  const [isGesturesOpen, setIsGesturesOpen] = useState(false);
+  const [isDebugOpen, setIsDebugOpen] = useState(false);
+  const [isAudioOpen, setIsAudioOpen] = useState(false);
+  const [shareStatus, setShareStatus] = useState<'idle' | 'copied' | 'failed'>('idle');
+
+  const handleShareClick = async () => {
+    const copied = await onShare();
+    setShareStatus(copied ? 'copied' : 'failed');
+    setTimeout(() => setShareStatus('idle'), 2000);
+  };
 
   const handleUploadClick = () => {
     fileInputRef.current?.click();
   };
 
   return (
-    <div className="absolute inset-0 pointer-events-none flex flex-col justify-between p-8 z-10">
+    <div 
+      className="absolute inset-0 pointer-events-none flex flex-col justify-between p-8 z-10"
+      // Accent colours follow the 3D theme; the colour transitions below cross-fade them with the scene
+      // Theme colours are #rrggbb, so the faded variants append an alpha byte (Tailwind can't fade a var() colour)
+      style={{ 
+        '--accent': theme.gold, 
+        '--accent-bright': theme.goldHighlight, 
+        '--accent-muted': `${theme.gold}cc`, 
+        '--accent-soft': `${theme.gold}66` 
+      } as React.CSSProperties}
+    >
       {/* Header */}
       <div className="text-center mt-4">
-        <h1 className="text-4xl md:text-6xl text-yellow-500 font-bold tracking-widest drop-shadow-[0_4px_4px_rgba(0,0,0,0.8)] serif-font">
-          NYT love LDM
+        <h1 className="text-4xl md:text-6xl text-[color:var(--accent)] transition-colors duration-1000 font-bold tracking-widest drop-shadow-[0_4px_4px_rgba(0,0,0,0.8)] serif-font">
+          {greeting.title}
         </h1>
-        <h2 className="text-xl text-white tracking-widest font-light mt-2 opacity-80">
-          Interactive Christmas Experience
-        </h2>
+        {greeting.subtitle && (
+          <h2 className="text-xl text-white tracking-widest font-light mt-2 opacity-80">
+            {greeting.subtitle}
+          </h2>
+        )}
       </div>
 
+      <GreetingReveal greeting={greeting} visible={state === TreeState.FORMED} />
+
       {/* Controls */}
       <div className="mb-12 flex flex-col items-center pointer-events-auto gap-4">
+         {focusedPhotoIndex !== null && (
+            <PhotoNavigator 
+                focusedIndex={focusedPhotoIndex}
+                count={photoCount}
+                slideshow={slideshow}
+                onStep={onStepPhoto}
+                onClose={onClosePhoto}
+            />
+         )}
+
+         {isGreetingOpen && (
+            <GreetingEditor 
+                greeting={greeting}
+                onChange={onGreetingChange}
+                onClose={() => setIsGreetingOpen(false)}
+            />
+         )}
+
+         {isGesturesOpen && (
+            <GestureBindingsPanel 
+                bindings={gestureBindings}
+                onChange={onGestureBindingsChange}
+                onReset={onResetGestureBindings}
+                tuning={gestureTuning}
+                onTuningChange={onGestureTuningChange}
+                isCalibrating={isCalibrating}
+                calibrationFailed={calibrationFailed}
+                onCalibrate={onCalibrate}
+                onClose={() => setIsGesturesOpen(false)}
+            />
+         )}
+
+         {isDebugOpen && (
+            <HandSessionPanel 
+                session={handSession}
+                onStopRecording={onStopHandRecording}
+                onClose={() => setIsDebugOpen(false)}
+            />
+         )}
+
+         {isAudioOpen && (
+            <AudioPanel 
+                audio={audio}
+                onClose={() => setIsAudioOpen(false)}
+            />
+         )}
+
+         {isThemeOpen && (
+            <ThemePicker 
+                theme={theme} 
+                onChange={onThemeChange} 
+                onClose={() => setIsThemeOpen(false)} 
+            />
+         )}
+
+         {isLightsOpen && (
+            <FairyLightsPanel 
+                lights={lights}
+                theme={theme}
+                onChange={onLightsChange}
+                onClose={() => setIsLightsOpen(false)}
+            />
+         )}
+
+         {isWinterOpen && (
+            <WinterPanel 
+                winter={winter}
+                onChange={onWinterChange}
+                onClose={() => setIsWinterOpen(false)}
+            />
+         )}
+
+         {isDesignerOpen && (
+            <ShapeDesigner 
+                sceneText={sceneText}
+                onSpellText={onSpellText}
+                onLogoUpload={onLogoUpload}
+                onClose={() => setIsDesignerOpen(false)}
+            />
+         )}
+
+         {isShowOpen && (
+            <ShowControls 
+                script={showScript}
+                player={showPlayer}
+                isRecording={isShowRecording}
+                onLoadScript={onLoadShowScript}
+                onLoadDemo={onLoadDemoShow}
+                onToggleRecording={onToggleShowRecording}
+                onDownload={onDownloadShow}
+                onClose={() => setIsShowOpen(false)}
+            />
+         )}
+
+         {isVideoOpen && (
+            <VideoRecordPanel 
+                recorder={videoRecorder}
+                onDownload={onDownloadVideo}
+                onClose={() => setIsVideoOpen(false)}
+            />
+         )}
+
+         {isPosterOpen && (
+            <PosterPanel 
+                onSave={onSavePoster}
+                onClose={() => setIsPosterOpen(false)}
+            />
+         )}
+
+         {isAlbumOpen && (
+            <PhotoAlbum 
+                photos={photos}
+                onAdd={handleUploadClick}
+                onRemove={onRemovePhoto}
+                onClear={onClearPhotos}
+                onMove={onMovePhoto}
+                onCaptionChange={onCaptionChange}
+                onClose={() => setIsAlbumOpen(false)}
+            />
+         )}
+
          <div className="bg-black/30 p-6 rounded-xl backdrop-blur-sm border border-white/5 text-center">
-            <div className="text-yellow-200 text-xs md:text-sm mb-6 opacity-90 font-light leading-relaxed">
-                <p className="mb-2"><span className="text-yellow-500 font-bold">GESTURES:</span> Open Palm for Chaos • Fist to Form</p>
-                <p><span className="text-yellow-500 font-bold">INTERACT:</span> Wave hand to Spin • Move hand to control Magic Dust</p>
+            <div className="text-[color:var(--accent-bright)] text-xs md:text-sm mb-6 opacity-90 font-light leading-relaxed">
+                <p className="mb-2"><span className="text-[color:var(--accent)] font-bold">GESTURES:</span> {describeGestureBindings(gestureBindings)}</p>
+                <p className="mb-2"><span className="text-[color:var(--accent)] font-bold">INTERACT:</span> Pinch and drag to Spin • Pinch or Hold your Hand over a Photo to Open • Two Hands to Zoom and Tilt • Move hand to control Magic Dust</p>
+                <p><span className="text-[color:var(--accent)] font-bold">KEYS:</span> Space to Assemble • ←/→ to Spin • N/P or 1–9 for Photos • ←/→ to Browse when Zoomed • Esc to Close • M to Mute</p>
             </div>
             
             <div className="flex flex-col md:flex-row gap-4 justify-center">
@@ -39,9 +322,9 @@ export const UIOverlay: React.FC<UIOverlayProps> = ({ state, onToggle, onUpload
                 <button
                     onClick={onToggle}
                     className={`
-                        relative overflow-hidden group px-8 py-3 bg-transparent border-2 border-yellow-600 
-                        text-yellow-500 font-serif text-lg uppercase tracking-widest transition-all duration-500
-                        hover:bg-yellow-600/20 hover:text-yellow-200 hover:border-yellow-400 hover:shadow-[0_0_30px_rgba(255,215,0,0.4)]
+                        relative overflow-hidden group px-8 py-3 bg-transparent border-2 border-[color:var(--accent)] 
+                        text-[color:var(--accent)] font-serif text-lg uppercase tracking-widest transition-all duration-500
+                        hover:bg-white/10 hover:text-[color:var(--accent-bright)] hover:border-[color:var(--accent-bright)] hover:shadow-[0_0_30px_var(--accent-soft)]
                         backdrop-blur-sm
                     `}
                 >
@@ -50,13 +333,34 @@ export const UIOverlay: React.FC<UIOverlayProps> = ({ state, onToggle, onUpload
                     </span>
                 </button>
 
+                {/* Formation Cycler */}
+                <div className="flex items-stretch border-2 border-[color:var(--accent)] transition-colors duration-1000 backdrop-blur-sm">
+                    <button
+                        onClick={() => onCycleFormation(-1)}
+                        className="px-3 text-[color:var(--accent)] hover:bg-white/10 hover:text-[color:var(--accent-bright)] transition-colors"
+                        aria-label="Previous shape"
+                    >
+                        ‹
+                    </button>
+                    <span className="min-w-[8rem] flex items-center justify-center px-2 py-3 text-[color:var(--accent-bright)] font-serif text-lg uppercase tracking-widest">
+                        {formationName}
+                    </span>
+                    <button
+                        onClick={() => onCycleFormation(1)}
+                        className="px-3 text-[color:var(--accent)] hover:bg-white/10 hover:text-[color:var(--accent-bright)] transition-colors"
+                        aria-label="Next shape"
+                    >
+                        ›
+                    </button>
+                </div>
+
                 {/* Upload Button */}
                 <button
                     onClick={handleUploadClick}
                     className={`
-                        relative overflow-hidden group px-8 py-3 bg-emerald-900/40 border-2 border-emerald-600 
-                        text-emerald-400 font-serif text-lg uppercase tracking-widest transition-all duration-500
-                        hover:bg-emerald-800/60 hover:text-emerald-200 hover:border-emerald-400 hover:shadow-[0_0_30px_rgba(0,255,100,0.2)]
+                        relative overflow-hidden group px-8 py-3 bg-white/5 border-2 border-[color:var(--accent-muted)] 
+                        text-[color:var(--accent-muted)] font-serif text-lg uppercase tracking-widest transition-all duration-500
+                        hover:bg-white/10 hover:text-[color:var(--accent-bright)] hover:border-[color:var(--accent-bright)] hover:shadow-[0_0_30px_var(--accent-soft)]
                         backdrop-blur-sm
                     `}
                 >
@@ -64,6 +368,21 @@ export const UIOverlay: React.FC<UIOverlayProps> = ({ state, onToggle, onUpload
                         Upload Memories
                     </span>
                 </button>
+
+                {/* Album Button */}
+                <button
+                    onClick={() => setIsAlbumOpen(open => !open)}
+                    className={`
+                        relative overflow-hidden group px-8 py-3 border-2 font-serif text-lg uppercase tracking-widest transition-all duration-500
+                        hover:text-[color:var(--accent-bright)] hover:border-[color:var(--accent-bright)] hover:shadow-[0_0_30px_var(--accent-soft)]
+                        backdrop-blur-sm
+                        ${isAlbumOpen ? 'bg-white/10 border-[color:var(--accent-bright)] text-[color:var(--accent-bright)]' : 'bg-transparent border-[color:var(--accent-muted)] text-[color:var(--accent-muted)]'}
+                    `}
+                >
+                    <span className="relative z-10">
+                        Album ({photos.length})
+                    </span>
+                </button>
                 
                 {/* Hidden Input */}
                 <input 
@@ -72,18 +391,125 @@ export const UIOverlay: React.FC<UIOverlayProps> = ({ state, onToggle, onUpload
                     multiple 
                     accept="image/*" 
                     className="hidden"
-                    onChange={(e) => onUpload(e.target.files)}
+                    onChange={(e) => {
+                        onUpload(e.target.files);
+                        // Reset so picking the same file again still fires onChange
+                        e.target.value = '';
+                    }}
                 />
             </div>
+
+            {/* Secondary Actions */}
+            <div className="flex flex-wrap gap-3 justify-center mt-4">
+                <button
+                    onClick={handleShareClick}
+                    className="px-4 py-1.5 border border-[color:var(--accent-soft)] text-[color:var(--accent-muted)] text-xs uppercase tracking-widest hover:text-[color:var(--accent-bright)] hover:border-[color:var(--accent-bright)] transition-colors"
+                >
+                    {shareStatus === 'copied' ? 'Link Copied' : shareStatus === 'failed' ? 'Link in Address Bar' : 'Share Tree'}
+                </button>
+                <button
+                    onClick={() => setIsGreetingOpen(open => !open)}
+                    className="px-4 py-1.5 border border-[color:var(--accent-soft)] text-[color:var(--accent-muted)] text-xs uppercase tracking-widest hover:text-[color:var(--accent-bright)] hover:border-[color:var(--accent-bright)] transition-colors"
+                >
+                    Greeting
+                </button>
+                <button
+                    onClick={slideshow.isPlaying ? slideshow.pause : onStartSlideshow}
+                    disabled={photoCount === 0}
+                    className="px-4 py-1.5 border border-[color:var(--accent-soft)] text-[color:var(--accent-muted)] text-xs uppercase tracking-widest hover:text-[color:var(--accent-bright)] hover:border-[color:var(--accent-bright)] disabled:opacity-40 transition-colors"
+                >
+                    {slideshow.isPlaying ? 'Stop Slideshow' : 'Slideshow'}
+                </button>
+                <button
+                    onClick={() => setIsGesturesOpen(open => !open)}
+                    className="px-4 py-1.5 border border-[color:var(--accent-soft)] text-[color:var(--accent-muted)] text-xs uppercase tracking-widest hover:text-[color:var(--accent-bright)] hover:border-[color:var(--accent-bright)] transition-colors"
+                >
+                    Gestures
+                </button>
+                <button
+                    onClick={() => setIsThemeOpen(open => !open)}
+                    className="px-4 py-1.5 border border-[color:var(--accent-soft)] text-[color:var(--accent-muted)] text-xs uppercase tracking-widest hover:text-[color:var(--accent-bright)] hover:border-[color:var(--accent-bright)] transition-colors"
+                >
+                    Theme
+                </button>
+                <button
+                    onClick={() => setIsLightsOpen(open => !open)}
+                    className="px-4 py-1.5 border border-[color:var(--accent-soft)] text-[color:var(--accent-muted)] text-xs uppercase tracking-widest hover:text-[color:var(--accent-bright)] hover:border-[color:var(--accent-bright)] transition-colors"
+                >
+                    Lights
+                </button>
+                <button
+                    onClick={() => setIsWinterOpen(open => !open)}
+                    className="px-4 py-1.5 border border-[color:var(--accent-soft)] text-[color:var(--accent-muted)] text-xs uppercase tracking-widest hover:text-[color:var(--accent-bright)] hover:border-[color:var(--accent-bright)] transition-colors"
+                >
+                    Winter
+                </button>
+                <button
+                    onClick={() => setIsDesignerOpen(open => !open)}
+                    className="px-4 py-1.5 border border-[color:var(--accent-soft)] text-[color:var(--accent-muted)] text-xs uppercase tracking-widest hover:text-[color:var(--accent-bright)] hover:border-[color:var(--accent-bright)] transition-colors"
+                >
+                    Text / Logo
+                </button>
+                <button
+                    onClick={() => setIsShowOpen(open => !open)}
+                    className="px-4 py-1.5 border border-[color:var(--accent-soft)] text-[color:var(--accent-muted)] text-xs uppercase tracking-widest hover:text-[color:var(--accent-bright)] hover:border-[color:var(--accent-bright)] transition-colors"
+                >
+                    {showPlayer.isPlaying ? 'Show ▶' : isShowRecording ? 'Show ●' : 'Show'}
+                </button>
+                <button
+                    onClick={() => setIsVideoOpen(open => !open)}
+                    className="px-4 py-1.5 border border-[color:var(--accent-soft)] text-[color:var(--accent-muted)] text-xs uppercase tracking-widest hover:text-[color:var(--accent-bright)] hover:border-[color:var(--accent-bright)] transition-colors"
+                >
+                    {videoRecorder.status === 'idle' ? 'Record' : 'Recording ●'}
+                </button>
+                <button
+                    onClick={() => setIsPosterOpen(open => !open)}
+                    className="px-4 py-1.5 border border-[color:var(--accent-soft)] text-[color:var(--accent-muted)] text-xs uppercase tracking-widest hover:text-[color:var(--accent-bright)] hover:border-[color:var(--accent-bright)] transition-colors"
+                >
+                    Save Poster
+                </button>
+                <button
+                    onClick={() => setIsAudioOpen(open => !open)}
+                    className="px-4 py-1.5 border border-[color:var(--accent-soft)] text-[color:var(--accent-muted)] text-xs uppercase tracking-widest hover:text-[color:var(--accent-bright)] hover:border-[color:var(--accent-bright)] transition-colors"
+                >
+                    {audio.settings.muted ? 'Sound: Off' : 'Sound: On'}
+                </button>
+                <button
+                    onClick={() => onReducedMotionChange(!reducedMotion)}
+                    aria-pressed={reducedMotion}
+                    className="px-4 py-1.5 border border-[color:var(--accent-soft)] text-[color:var(--accent-muted)] text-xs uppercase tracking-widest hover:text-[color:var(--accent-bright)] hover:border-[color:var(--accent-bright)] transition-colors"
+                >
+                    {reducedMotion ? 'Motion: Reduced' : 'Motion: Full'}
+                </button>
+                <label className="flex items-center gap-2 px-3 py-1.5 border border-[color:var(--accent-soft)] text-[color:var(--accent-muted)] text-xs uppercase tracking-widest">
+                    Quality
+                    <select
+                        value={qualityMode}
+                        onChange={(e) => onQualityModeChange(e.target.value as QualityMode)}
+                        className="bg-black/60 text-[color:var(--accent-bright)] text-xs uppercase tracking-widest outline-none cursor-pointer"
+                    >
+                        <option value="AUTO">Auto ({QUALITY_LABELS[qualityTier]})</option>
+                        {QUALITY_TIERS.map(tier => (
+                            <option key={tier} value={tier}>{QUALITY_LABELS[tier]}</option>
+                        ))}
+                    </select>
+                </label>
+                <button
+                    onClick={() => setIsDebugOpen(open => !open)}
+                    className="px-4 py-1.5 border border-[color:var(--accent-soft)] text-[color:var(--accent-muted)] text-xs uppercase tracking-widest hover:text-[color:var(--accent-bright)] hover:border-[color:var(--accent-bright)] transition-colors"
+                >
+                    {handSession.replay ? 'Debug ▶' : handSession.isRecording ? 'Debug ●' : 'Debug'}
+                </button>
+            </div>
          </div>
       </div>
 
       {/* Decorative corners */}
       <div className="absolute top-0 left-0 w-full h-full pointer-events-none border-[20px] border-transparent">
-        <div className="absolute top-4 left-4 w-16 h-16 border-t-2 border-l-2 border-yellow-600/50"></div>
-        <div className="absolute top-4 right-4 w-16 h-16 border-t-2 border-r-2 border-yellow-600/50"></div>
-        <div className="absolute bottom-4 left-4 w-16 h-16 border-b-2 border-l-2 border-yellow-600/50"></div>
-        <div className="absolute bottom-4 right-4 w-16 h-16 border-b-2 border-r-2 border-yellow-600/50"></div>
+        <div className="absolute top-4 left-4 w-16 h-16 border-t-2 border-l-2 border-[color:var(--accent)] opacity-50 transition-colors duration-1000"></div>
+        <div className="absolute top-4 right-4 w-16 h-16 border-t-2 border-r-2 border-[color:var(--accent)] opacity-50 transition-colors duration-1000"></div>
+        <div className="absolute bottom-4 left-4 w-16 h-16 border-b-2 border-l-2 border-[color:var(--accent)] opacity-50 transition-colors duration-1000"></div>
+        <div className="absolute bottom-4 right-4 w-16 h-16 border-b-2 border-r-2 border-[color:var(--accent)] opacity-50 transition-colors duration-1000"></div>
       </div>
     </div>
   );
@@ -0,0 +1,143 @@
+import React, { useRef, useState } from 'react';
+import { VIDEO_DURATIONS, VIDEO_FRAME_RATES, VideoRecorder } from '../hooks/useVideoRecorder';
+
+interface VideoRecordPanelProps {
+  recorder: VideoRecorder;
+  onDownload: (video: Blob) => void;
+  onClose: () => void;
+}
+
+// Options for capturing the scene to WebM, with progress and the finished file
+export const VideoRecordPanel: React.FC<VideoRecordPanelProps> = ({ recorder, onDownload, onClose }) => {
+  const [duration, setDuration] = useState(VIDEO_DURATIONS[1]);
+  const [fps, setFps] = useState(VIDEO_FRAME_RATES[1]);
+  const [loopCycle, setLoopCycle] = useState(false);
+  const [audio, setAudio] = useState<File | null>(null);
+  const audioInputRef = useRef<HTMLInputElement>(null);
+
+  const isBusy = recorder.status !== 'idle';
+
+  const optionClass = (active: boolean) => `px-3 py-1 rounded border text-xs transition-colors disabled:opacity-40 ${active ? 'border-white/70 bg-white/10 text-white' : 'border-white/10 text-white/60 hover:border-white/40'}`;
+
+  return (
+    <div className="pointer-events-auto w-[min(90vw,28rem)] bg-black/70 backdrop-blur-md border border-white/10 rounded-xl p-4 shadow-[0_0_30px_rgba(255,215,0,0.15)]">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-[color:var(--accent)] text-sm uppercase tracking-widest transition-colors duration-1000">
+          Record Video
+        </h3>
+        <button 
+          onClick={onClose} 
+          className="text-white/50 hover:text-white text-lg leading-none px-2"
+          aria-label="Close video recorder"
+        >
+          ×
+        </button>
+      </div>
+
+      {!recorder.isSupported ? (
+        <p className="text-white/60 text-xs">This browser cannot record the canvas. Try a recent Chrome, Edge or Firefox.</p>
+      ) : (
+        <>
+          <div className="flex items-center gap-2 mb-2">
+            <span className="w-16 text-white/50 text-[10px] uppercase tracking-widest">Length</span>
+            {VIDEO_DURATIONS.map(seconds => (
+              <button
+                key={seconds}
+                onClick={() => setDuration(seconds)}
+                disabled={isBusy || loopCycle}
+                className={optionClass(!loopCycle && duration === seconds)}
+              >
+                {seconds}s
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2 mb-3">
+            <span className="w-16 text-white/50 text-[10px] uppercase tracking-widest">Frames</span>
+            {VIDEO_FRAME_RATES.map(rate => (
+              <button
+                key={rate}
+                onClick={() => setFps(rate)}
+                disabled={isBusy}
+                className={optionClass(fps === rate)}
+              >
+                {rate} fps
+              </button>
+            ))}
+          </div>
+
+          <label className="flex items-center gap-2 text-white/70 text-[10px] uppercase tracking-widest mb-2 cursor-pointer">
+            <input 
+              type="checkbox" 
+              checked={loopCycle} 
+              disabled={isBusy} 
+              onChange={(e) => setLoopCycle(e.target.checked)} 
+            />
+            Seamless loop: scatter → assemble → scatter
+          </label>
+
+          <div className="flex items-center gap-2 mb-3">
+            <button
+              onClick={() => audioInputRef.current?.click()}
+              disabled={isBusy}
+              className="px-3 py-1 border border-white/10 text-white/70 text-[10px] uppercase tracking-widest hover:border-white/40 disabled:opacity-40 transition-colors"
+            >
+              {audio ? 'Change Music' : 'Add Music'}
+            </button>
+            {audio && (
+              <>
+                <span className="flex-1 truncate text-white/60 text-xs">{audio.name}</span>
+                <button
+                  onClick={() => setAudio(null)}
+                  disabled={isBusy}
+                  className="text-white/50 hover:text-white text-xs px-1"
+                  aria-label="Remove music"
+                >
+                  ×
+                </button>
+              </>
+            )}
+            <input
+              ref={audioInputRef}
+              type="file"
+              accept="audio/*"
+              className="hidden"
+              onChange={(e) => {
+                setAudio(e.target.files?.[0] ?? null);
+                e.target.value = '';
+              }}
+            />
+          </div>
+
+          {isBusy && (
+            <div className="h-1 bg-white/10 rounded mb-3 overflow-hidden">
+              <div 
+                className="h-full bg-red-500 transition-[width] duration-100" 
+                style={{ width: `${Math.round(recorder.progress * 100)}%` }} 
+              />
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              onClick={isBusy ? recorder.stop : () => recorder.start({ duration, fps, loopCycle, audio })}
+              className={`flex-1 py-2 border text-xs uppercase tracking-widest transition-colors ${isBusy ? 'border-red-500 bg-red-900/40 text-red-200' : 'border-[color:var(--accent)] text-[color:var(--accent)] hover:bg-white/10'}`}
+            >
+              {recorder.status === 'preparing' ? 'Scattering… (Cancel)' : isBusy ? '■ Stop' : '● Start Recording'}
+            </button>
+            {recorder.result && !isBusy && (
+              <button
+                onClick={() => onDownload(recorder.result!)}
+                className="flex-1 py-2 border border-emerald-600 text-emerald-400 text-xs uppercase tracking-widest hover:bg-emerald-900/40 transition-colors"
+              >
+                Download WebM
+              </button>
+            )}
+          </div>
+          {recorder.error && (
+            <p className="text-red-300/80 text-[10px] uppercase tracking-widest mt-2">{recorder.error}</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
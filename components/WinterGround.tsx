@@ -0,0 +1,192 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { ContactShadows, MeshReflectorMaterial } from '@react-three/drei';
+import * as THREE from 'three';
+import { WinterGround as WinterGroundKind } from '../types';
+import { createRandom, RandomFn, RANDOM_STREAMS } from '../utils/random';
+
+interface WinterGroundProps {
+  ground: WinterGroundKind;
+  y: number;
+  snowing?: boolean; // Snow only piles up while it is falling
+  seed?: number;
+  reflectionResolution?: number;
+  // Off on low-end devices: the marble loses its reflection and nothing casts a contact shadow
+  floorPasses?: boolean;
+}
+
+// Seconds of snowfall until the drifts reach full depth
+const PILE_UP_SECONDS = 120;
+// A freshly shown snow ground already has a dusting, so it never starts as bare earth
+const INITIAL_SNOW = 0.1;
+
+const SnowGroundShaderMaterial = {
+  uniforms: {
+    uAccumulation: { value: INITIAL_SNOW },
+  },
+  vertexShader: `
+    uniform float uAccumulation;
+    varying vec3 vWorld;
+    varying float vCover;
+
+    float hash(vec2 p) {
+      return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453);
+    }
+
+    float noise(vec2 p) {
+      vec2 i = floor(p);
+      vec2 f = fract(p);
+      vec2 u = f * f * (3.0 - 2.0 * f);
+      return mix(mix(hash(i), hash(i + vec2(1.0, 0.0)), u.x), mix(hash(i + vec2(0.0, 1.0)), hash(i + vec2(1.0, 1.0)), u.x), u.y);
+    }
+
+    void main() {
+      // The plane lies in local XY and is rotated flat, so local z is up
+      vec3 pos = position;
+      float r = length(pos.xy);
+      float n = noise(pos.xy * 0.6) * 0.65 + noise(pos.xy * 2.1) * 0.35;
+
+      // Snow sliding off the branch tips builds a ring of drifts around the base; under the branches stays shallow
+      float mound = 0.7 * exp(-pow(r - 4.6, 2.0) / 2.5);
+      pos.z += uAccumulation * (0.06 + mound) * (0.7 + 0.6 * n);
+
+      // Patches appear first in the drifts and the noise hollows, then join up
+      vCover = smoothstep(n * 0.5, n * 0.5 + 0.2, uAccumulation * (1.0 + mound * 3.0));
+
+      vec4 world = modelMatrix * vec4(pos, 1.0);
+      vWorld = world.xyz;
+      gl_Position = projectionMatrix * viewMatrix * world;
+    }
+  `,
+  fragmentShader: `
+    varying vec3 vWorld;
+    varying float vCover;
+
+    void main() {
+      // Flat shading from screen-space derivatives is enough to read the drifts
+      vec3 normal = normalize(cross(dFdx(vWorld), dFdy(vWorld)));
+      float light = 0.35 + 0.65 * max(dot(normal, normalize(vec3(0.4, 1.0, 0.5))), 0.0);
+
+      vec3 earth = vec3(0.03, 0.04, 0.035);
+      vec3 snow = vec3(0.72, 0.76, 0.82) * light;
+      vec3 color = mix(earth, snow, vCover);
+
+      // Fades into the night well before the plane's edge
+      float r = length(vWorld.xz);
+      gl_FragColor = vec4(color, 1.0 - smoothstep(14.0, 26.0, r));
+    }
+  `
+};
+
+const SnowGround: React.FC<{ snowing: boolean }> = ({ snowing }) => {
+  const shaderRef = useRef<THREE.ShaderMaterial>(null);
+  const accumulation = useRef(INITIAL_SNOW);
+
+  useFrame((_, delta) => {
+    if (snowing) accumulation.current = Math.min(1, accumulation.current + delta / PILE_UP_SECONDS);
+    if (shaderRef.current) shaderRef.current.uniforms.uAccumulation.value = accumulation.current;
+  });
+
+  return (
+    <mesh rotation={[-Math.PI / 2, 0, 0]}>
+      <planeGeometry args={[56, 56, 160, 160]} />
+      <shaderMaterial ref={shaderRef} args={[SnowGroundShaderMaterial]} transparent />
+    </mesh>
+  );
+};
+
+// Line width and colour of each pass over a vein
+const VEIN_STROKES: [number, string][] = [[6, 'rgba(200, 200, 210, 0.04)'], [1, 'rgba(225, 225, 235, 0.35)']];
+
+// Dark polished marble with pale veins, drawn once into a canvas. Seeded, so a share link shows the same floor.
+const createMarbleTexture = (random: RandomFn) => {
+  const size = 512;
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const context = canvas.getContext('2d');
+  if (context) {
+    context.fillStyle = '#0c0c0e';
+    context.fillRect(0, 0, size, size);
+    context.lineCap = 'round';
+    // Each vein is a wandering line, drawn twice: a soft halo, then a fine bright core
+    for (let v = 0; v < 14; v++) {
+      const points: [number, number][] = [];
+      let x = random() * size;
+      let y = 0;
+      let heading = Math.PI / 2 + (random() - 0.5) * 0.8;
+      while (y < size && points.length < 200) {
+        points.push([x, y]);
+        heading += (random() - 0.5) * 0.5;
+        x += Math.cos(heading) * 8;
+        y += Math.abs(Math.sin(heading)) * 8 + 1;
+      }
+      VEIN_STROKES.forEach(([width, style]) => {
+        context.lineWidth = width;
+        context.strokeStyle = style;
+        context.beginPath();
+        points.forEach(([px, py], i) => (i === 0 ? context.moveTo(px, py) : context.lineTo(px, py)));
+        context.stroke();
+      });
+    }
+  }
+  const tex = new THREE.CanvasTexture(canvas);
+  tex.wrapS = tex.wrapT = THREE.RepeatWrapping;
+  tex.repeat.set(6, 6);
+  tex.colorSpace = THREE.SRGBColorSpace;
+  return tex;
+};
+
+const MarbleFloor: React.FC<{ seed: number; resolution: number; reflective: boolean }> = ({ seed, resolution, reflective }) => {
+  const texture = useMemo(() => createMarbleTexture(createRandom(seed, RANDOM_STREAMS.marble)), [seed]);
+  useEffect(() => () => texture.dispose(), [texture]);
+
+  return (
+    <mesh rotation={[-Math.PI / 2, 0, 0]}>
+      <planeGeometry args={[120, 120]} />
+      {reflective ? (
+        <MeshReflectorMaterial
+          map={texture}
+          resolution={resolution}
+          blur={[300, 80]}
+          mixBlur={0.8}
+          mixStrength={6}
+          roughness={0.6}
+          metalness={0.4}
+          mirror={0.6}
+          depthScale={0.6}
+          minDepthThreshold={0.5}
+          maxDepthThreshold={1.2}
+          color="#8a8a90"
+        />
+      ) : (
+        <meshStandardMaterial map={texture} roughness={0.35} metalness={0.4} color="#8a8a90" />
+      )}
+    </mesh>
+  );
+};
+
+// The floor under the tree: snow that drifts around the base, or reflective marble.
+// Both get soft contact shadows, as the spotlight's shadow map has nothing to land on (unless the quality tier turns them off).
+export const WinterGround: React.FC<WinterGroundProps> = ({
+  ground,
+  y,
+  snowing = false,
+  seed = 0,
+  reflectionResolution = 1024,
+  floorPasses = true
+}) => {
+  if (ground === 'none') return null;
+
+  return (
+    <group position={[0, y, 0]}>
+      {ground === 'snow' 
+        ? <SnowGround snowing={snowing} /> 
+        : <MarbleFloor seed={seed} resolution={reflectionResolution} reflective={floorPasses} />}
+      {/* Just above the shallow snow under the branches, so the shadow isn't buried */}
+      {floorPasses && (
+        <ContactShadows position={[0, 0.1, 0]} scale={24} far={10} blur={2.5} opacity={0.65} resolution={512} color="#000000" />
+      )}
+    </group>
+  );
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import { WinterScene } from '../types';
+import { WINTER_GROUND_LABELS, WINTER_GROUNDS } from '../utils/winter';
+
+interface WinterPanelProps {
+  winter: WinterScene;
+  onChange: (winter: WinterScene) => void;
+  onClose: () => void;
+}
+
+export const WinterPanel: React.FC<WinterPanelProps> = ({ winter, onChange, onClose }) => {
+  return (
+    <div className="pointer-events-auto w-[min(90vw,24rem)] bg-black/70 backdrop-blur-md border border-white/10 rounded-xl p-4 shadow-[0_0_30px_rgba(255,215,0,0.15)]">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-[color:var(--accent)] text-sm uppercase tracking-widest transition-colors duration-1000">
+          Winter Scene
+        </h3>
+        <button
+          onClick={onClose}
+          className="text-white/50 hover:text-white text-lg leading-none px-2"
+          aria-label="Close winter scene"
+        >
+          ×
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <button
+          onClick={() => onChange({ ...winter, snowfall: !winter.snowfall })}
+          aria-pressed={winter.snowfall}
+          className={`px-3 py-1 border text-[10px] uppercase tracking-widest transition-colors ${winter.snowfall ? 'border-white/70 bg-white/10 text-white' : 'border-white/10 text-white/70 hover:border-white/40'}`}
+        >
+          {winter.snowfall ? 'Snowfall: On' : 'Snowfall: Off'}
+        </button>
+        <span className="text-white/50 text-[10px] uppercase tracking-widest ml-2">Floor</span>
+        {WINTER_GROUNDS.map(ground => (
+          <button
+            key={ground}
+            onClick={() => onChange({ ...winter, ground })}
+            aria-pressed={winter.ground === ground}
+            className={`px-3 py-1 border text-[10px] uppercase tracking-widest transition-colors ${winter.ground === ground ? 'border-white/70 bg-white/10 text-white' : 'border-white/10 text-white/70 hover:border-white/40'}`}
+          >
+            {WINTER_GROUND_LABELS[ground]}
+          </button>
+        ))}
+      </div>
+
+      <label className="flex flex-col gap-1 text-white/50 text-[10px] uppercase tracking-widest">
+        <span className="flex justify-between">
+          Wind
+          <span className="text-white/70 font-mono normal-case">{Math.round(winter.wind * 100)}%</span>
+        </span>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={winter.wind}
+          disabled={!winter.snowfall}
+          onChange={(e) => onChange({ ...winter, wind: Number(e.target.value) })}
+          className="accent-[color:var(--accent)] disabled:opacity-40"
+        />
+      </label>
+      <p className="text-white/40 text-[10px] font-mono mt-3">
+        Snow slowly piles up around the base of the tree while it falls on the snow floor.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import * as THREE from 'three';
+import { RandomFn } from '../utils/random';
+import { Formation, FormationTarget } from './types';
+
+export type Point2 = [number, number];
+
+// A 2D silhouette in tree units (roughly x -7..7, y -7..7), extruded a little in z
+export interface FlatShape {
+  // Random point inside the silhouette, used to fill it with foliage
+  fill: (random: RandomFn) => Point2;
+  // Point along the silhouette's outline for t in [0, 1), where ornaments and frames hang
+  outline: (t: number) => Point2;
+  // Half thickness of the foliage slab
+  depth: number;
+}
+
+// Builds a closed-polygon shape: outline walks the perimeter at constant speed,
+// fill rejection-samples the bounding box with an even-odd point-in-polygon test
+export const polygonShape = (points: Point2[], depth = 0.8): FlatShape => {
+  const lengths: number[] = [];
+  let perimeter = 0;
+  points.forEach((p, i) => {
+    const q = points[(i + 1) % points.length];
+    const length = Math.hypot(q[0] - p[0], q[1] - p[1]);
+    lengths.push(length);
+    perimeter += length;
+  });
+
+  const xs = points.map(p => p[0]);
+  const ys = points.map(p => p[1]);
+  const minX = Math.min(...xs), maxX = Math.max(...xs);
+  const minY = Math.min(...ys), maxY = Math.max(...ys);
+
+  const contains = (x: number, y: number) => {
+    let inside = false;
+    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+      const [xi, yi] = points[i];
+      const [xj, yj] = points[j];
+      if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+    }
+    return inside;
+  };
+
+  return {
+    depth,
+    fill: (random) => {
+      for (let attempt = 0; attempt < 64; attempt++) {
+        const x = minX + random() * (maxX - minX);
+        const y = minY + random() * (maxY - minY);
+        if (contains(x, y)) return [x, y];
+      }
+      return points[0];
+    },
+    outline: (t) => {
+      let distance = (((t % 1) + 1) % 1) * perimeter;
+      for (let i = 0; i < points.length; i++) {
+        if (distance <= lengths[i] || i === points.length - 1) {
+          const p = points[i];
+          const q = points[(i + 1) % points.length];
+          const f = lengths[i] > 0 ? Math.min(1, distance / lengths[i]) : 0;
+          return [p[0] + (q[0] - p[0]) * f, p[1] + (q[1] - p[1]) * f];
+        }
+        distance -= lengths[i];
+      }
+      return points[0];
+    }
+  };
+};
+
+// Turns a flat shape into a full formation facing the camera (+z)
+export const createFlatFormation = (id: string, name: string, shape: FlatShape): Formation => ({
+  id,
+  name,
+  flat: true,
+  ribbon: false,
+  star: null,
+
+  foliage: (count, random) => {
+    const positions = new Float32Array(count * 3);
+    for (let i = 0; i < count; i++) {
+      const [x, y] = shape.fill(random);
+      positions[i * 3] = x;
+      positions[i * 3 + 1] = y;
+      positions[i * 3 + 2] = (random() * 2 - 1) * shape.depth;
+    }
+    return positions;
+  },
+
+  ornaments: (count, kind, random) => {
+    const targets: FormationTarget[] = [];
+    // Baubles string along the front edge, gift boxes along the back
+    const z = (kind === 'box' ? -1 : 1) * (shape.depth + 0.2);
+    const phase = kind === 'box' ? 0.5 / Math.max(1, count) : 0;
+
+    for (let i = 0; i < count; i++) {
+      const [x, y] = shape.outline(i / count + phase + (random() - 0.5) * 0.2 / Math.max(1, count));
+      targets.push({
+        pos: new THREE.Vector3(x, y, z),
+        rot: new THREE.Euler(0, random() * Math.PI * 2, 0)
+      });
+    }
+    return targets;
+  },
+
+  frames: (count, random) => {
+    const targets: FormationTarget[] = [];
+    for (let i = 0; i < count; i++) {
+      const [x, y] = shape.outline((i + 0.5) / count);
+      targets.push({
+        // Hang in front of the foliage so the photos stay readable
+        pos: new THREE.Vector3(x, y, shape.depth + 0.6 + random() * 0.2),
+        rot: new THREE.Euler((random() - 0.5) * 0.1, 0, (random() - 0.5) * 0.3)
+      });
+    }
+    return targets;
+  }
+});
@@ -0,0 +1,32 @@
+import { createFlatFormation } from './flat';
+
+const ARMS = 3;
+const RADIUS = 7;
+const TWIST = 0.75; // Radians of wind per unit of radius
+const CORE_SHARE = 0.15; // Fraction of points packed into the bright core
+
+export const galaxyFormation = createFlatFormation('galaxy', 'Spiral Galaxy', {
+  depth: 0.4,
+  fill: (random) => {
+    if (random() < CORE_SHARE) {
+      const r = Math.pow(random(), 2) * 1.6;
+      const angle = random() * Math.PI * 2;
+      return [Math.cos(angle) * r, Math.sin(angle) * r];
+    }
+
+    // Arms thin out and spread wider towards the rim
+    const r = 0.6 + Math.pow(random(), 0.7) * (RADIUS - 0.6);
+    const arm = Math.floor(random() * ARMS);
+    const spread = (random() - 0.5) * (0.5 + r * 0.08);
+    const angle = (arm / ARMS) * Math.PI * 2 + r * TWIST + spread;
+    return [Math.cos(angle) * r, Math.sin(angle) * r];
+  },
+  outline: (t) => {
+    // Walk each arm from the core outwards in turn
+    const scaled = (((t % 1) + 1) % 1) * ARMS;
+    const arm = Math.floor(scaled);
+    const r = 1.2 + (scaled - arm) * (RADIUS - 1.2);
+    const angle = (arm / ARMS) * Math.PI * 2 + r * TWIST;
+    return [Math.cos(angle) * r, Math.sin(angle) * r];
+  }
+});
@@ -0,0 +1,14 @@
+import { createFlatFormation, Point2, polygonShape } from './flat';
+
+const SCALE = 0.38;
+const SEGMENTS = 160;
+
+// Classic parametric heart curve, scaled to the tree's footprint and centred vertically
+const heartPoints: Point2[] = Array.from({ length: SEGMENTS }, (_, i) => {
+  const t = (i / SEGMENTS) * Math.PI * 2;
+  const x = 16 * Math.pow(Math.sin(t), 3);
+  const y = 13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t);
+  return [x * SCALE, y * SCALE + 1.0];
+});
+
+export const heartFormation = createFlatFormation('heart', 'Heart', polygonShape(heartPoints, 0.9));
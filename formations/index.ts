@@ -0,0 +1,6 @@
+export * from './types';
+export * from './registry';
+export { createFlatFormation, polygonShape } from './flat';
+export type { FlatShape, Point2 } from './flat';
+export { createRasterFormation, LOGO_FORMATION_ID, TEXT_FORMATION_ID } from './raster';
+export type { RasterMask } from './raster';
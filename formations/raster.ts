@@ -0,0 +1,57 @@
+import { createFlatFormation, Point2 } from './flat';
+
+// A binary silhouette: 1 where the shape is, row-major from the top-left corner
+export interface RasterMask {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+// Runtime slots for user-made silhouettes; re-creating one replaces the previous shape
+export const TEXT_FORMATION_ID = 'text';
+export const LOGO_FORMATION_ID = 'logo';
+
+// The silhouette is fitted inside this box (tree units), keeping its aspect ratio
+const MAX_WIDTH = 15;
+const MAX_HEIGHT = 11;
+
+// Samples a rasterized text or logo silhouette: foliage fills the filled pixels,
+// ornaments and frames sit on its edge pixels (the glyph outlines)
+export const createRasterFormation = (id: string, name: string, mask: RasterMask) => {
+  const { width, height, data } = mask;
+  const filled: number[] = [];
+  const edges: number[] = [];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      if (!data[index]) continue;
+      filled.push(index);
+
+      const isEdge = x === 0 || y === 0 || x === width - 1 || y === height - 1 ||
+        !data[index - 1] || !data[index + 1] || !data[index - width] || !data[index + width];
+      if (isEdge) edges.push(index);
+    }
+  }
+
+  const scale = Math.min(MAX_WIDTH / width, MAX_HEIGHT / height);
+  const toWorld = (index: number, jitterX = 0.5, jitterY = 0.5): Point2 => {
+    const x = index % width + jitterX;
+    const y = Math.floor(index / width) + jitterY;
+    return [(x - width / 2) * scale, (height / 2 - y) * scale];
+  };
+
+  // An empty mask (blank text, fully transparent image) collapses to a single point
+  const fallback: Point2 = [0, 0];
+
+  return createFlatFormation(id, name, {
+    depth: 0.5,
+    fill: (random) => filled.length > 0
+      ? toWorld(filled[Math.floor(random() * filled.length)], random(), random())
+      : fallback,
+    // Edge pixels in scanline order; stepping through them evenly spreads points over every glyph
+    outline: (t) => edges.length > 0
+      ? toWorld(edges[Math.floor((((t % 1) + 1) % 1) * edges.length)])
+      : fallback
+  });
+};
@@ -0,0 +1,63 @@
+import { Formation } from './types';
+import { treeFormation } from './tree';
+import { heartFormation } from './heart';
+import { starFormation } from './star';
+import { galaxyFormation } from './galaxy';
+import { snowmanFormation } from './snowman';
+import { createYearFormation } from './year';
+
+export const DEFAULT_FORMATION_ID = treeFormation.id;
+
+// Damping factor used by every component when morphing between formations
+export const FORMATION_MORPH_SPEED = 1.5;
+
+// Insertion order is the cycling order used by the UI and gestures
+const registry = new Map<string, Formation>();
+
+// Formations can be registered at runtime (e.g. user text), so React subscribes to changes
+let version = 0;
+const listeners = new Set<() => void>();
+
+const notify = () => {
+  version++;
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeFormations = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getFormationsVersion = () => version;
+
+// Registering an existing id replaces that formation in place
+export const registerFormation = (formation: Formation) => {
+  registry.set(formation.id, formation);
+  notify();
+};
+
+export const unregisterFormation = (id: string) => {
+  if (id !== DEFAULT_FORMATION_ID && registry.delete(id)) notify();
+};
+
+export const hasFormation = (id: string) => registry.has(id);
+
+export const getFormation = (id: string): Formation =>
+  registry.get(id) ?? registry.get(DEFAULT_FORMATION_ID)!;
+
+export const listFormations = () => Array.from(registry.values());
+
+export const stepFormationId = (id: string, direction: 1 | -1) => {
+  const ids = Array.from(registry.keys());
+  const index = ids.indexOf(id);
+  return ids[(index + direction + ids.length) % ids.length];
+};
+
+[
+  treeFormation,
+  heartFormation,
+  starFormation,
+  galaxyFormation,
+  snowmanFormation,
+  createYearFormation()
+].forEach(registerFormation);
@@ -0,0 +1,86 @@
+import * as THREE from 'three';
+import { RandomFn } from '../utils/random';
+import { Formation, FormationTarget } from './types';
+
+interface Ball {
+  center: THREE.Vector3;
+  radius: number;
+}
+
+// Three stacked snowballs filling the tree's height
+const BALLS: Ball[] = [
+  { center: new THREE.Vector3(0, -4.2, 0), radius: 2.8 },
+  { center: new THREE.Vector3(0, 0.2, 0), radius: 2.0 },
+  { center: new THREE.Vector3(0, 3.5, 0), radius: 1.4 }
+];
+
+// Larger balls get proportionally more particles (by surface area)
+const AREA_WEIGHTS = (() => {
+  const areas = BALLS.map(ball => ball.radius * ball.radius);
+  const total = areas.reduce((sum, area) => sum + area, 0);
+  let running = 0;
+  return areas.map(area => (running += area / total));
+})();
+
+const pickBall = (random: RandomFn) => {
+  const r = random();
+  return BALLS[AREA_WEIGHTS.findIndex(weight => r <= weight)] ?? BALLS[0];
+};
+
+const randomDirection = (random: RandomFn) => {
+  const theta = random() * Math.PI * 2;
+  const phi = Math.acos(random() * 2 - 1);
+  return new THREE.Vector3(
+    Math.sin(phi) * Math.cos(theta),
+    Math.cos(phi),
+    Math.sin(phi) * Math.sin(theta)
+  );
+};
+
+const onSurface = (random: RandomFn, offset: number): FormationTarget & { ball: Ball } => {
+  const ball = pickBall(random);
+  const pos = randomDirection(random).multiplyScalar(ball.radius + offset).add(ball.center);
+  return { ball, pos, rot: new THREE.Euler(0, random() * Math.PI * 2, 0) };
+};
+
+export const snowmanFormation: Formation = {
+  id: 'snowman',
+  name: 'Snowman',
+  flat: false,
+  ribbon: false,
+  star: new THREE.Vector3(0, 5.6, 0),
+
+  foliage: (count, random) => {
+    const positions = new Float32Array(count * 3);
+    for (let i = 0; i < count; i++) {
+      // A thick shell reads as a snowball without wasting particles on the hidden core
+      const ball = pickBall(random);
+      const pos = randomDirection(random)
+        .multiplyScalar(ball.radius * (0.8 + random() * 0.2))
+        .add(ball.center);
+      positions[i * 3] = pos.x;
+      positions[i * 3 + 1] = pos.y;
+      positions[i * 3 + 2] = pos.z;
+    }
+    return positions;
+  },
+
+  ornaments: (count, kind, random) =>
+    Array.from({ length: count }, () => {
+      const { pos, rot } = onSurface(random, kind === 'box' ? 0.4 : 0.2);
+      return { pos, rot };
+    }),
+
+  frames: (count, random) => {
+    const dummy = new THREE.Object3D();
+    return Array.from({ length: count }, () => {
+      const { ball, pos } = onSurface(random, 0.6);
+      // Face outward from the ball's centre, like the tree frames face out from its trunk
+      dummy.position.copy(pos);
+      dummy.lookAt(ball.center);
+      dummy.rotateY(Math.PI);
+      dummy.rotateZ((random() - 0.5) * 0.3);
+      return { pos, rot: dummy.rotation.clone() };
+    });
+  }
+};
@@ -0,0 +1,14 @@
+import { createFlatFormation, Point2, polygonShape } from './flat';
+
+const POINTS = 5;
+const OUTER_RADIUS = 7;
+const INNER_RADIUS = 2.9;
+
+// Five-pointed star with one point straight up
+const starPoints: Point2[] = Array.from({ length: POINTS * 2 }, (_, i) => {
+  const radius = i % 2 === 0 ? OUTER_RADIUS : INNER_RADIUS;
+  const angle = Math.PI / 2 + (i / (POINTS * 2)) * Math.PI * 2;
+  return [Math.cos(angle) * radius, Math.sin(angle) * radius - 0.5];
+});
+
+export const starFormation = createFlatFormation('star', 'Star', polygonShape(starPoints, 0.8));
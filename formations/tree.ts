@@ -0,0 +1,95 @@
+import * as THREE from 'three';
+import { CONSTANTS } from '../types';
+import { Formation, FormationTarget } from './types';
+
+// The original cone-shaped Christmas tree
+export const treeFormation: Formation = {
+  id: 'tree',
+  name: 'Tree',
+  flat: false,
+  ribbon: true,
+  star: new THREE.Vector3(0, 7.5, 0),
+
+  foliage: (count, random) => {
+    const positions = new Float32Array(count * 3);
+    const radius = CONSTANTS.TREE_RADIUS;
+    const height = CONSTANTS.TREE_HEIGHT;
+
+    for (let i = 0; i < count; i++) {
+      const h = random(); 
+      const coneR = (1 - h) * radius;
+      const angle = random() * Math.PI * 2;
+      const dist = Math.sqrt(random()) * coneR;
+      
+      positions[i * 3] = Math.cos(angle) * dist;
+      positions[i * 3 + 1] = h * height - (height / 2);
+      positions[i * 3 + 2] = Math.sin(angle) * dist;
+    }
+    return positions;
+  },
+
+  ornaments: (count, kind, random) => {
+    const targets: FormationTarget[] = [];
+    const height = CONSTANTS.TREE_HEIGHT;
+    // Boxes sit slightly further out to look like they are resting on branches
+    const radius = CONSTANTS.TREE_RADIUS + (kind === 'box' ? 0.8 : 0.5); 
+
+    for (let i = 0; i < count; i++) {
+      const t = i / count; 
+      // For boxes, bias them slightly towards the bottom where branches are stronger
+      const hNormalized = kind === 'box' ? Math.pow(t, 1.1) : t;
+      const h = hNormalized * height - (height / 2);
+      
+      // Radius at this height
+      const rAtHeight = (1 - ((h + height/2)/height)) * radius;
+      
+      // Golden angle distribution for natural look
+      const angle = i * 137.5 + (random() * 0.5); 
+      
+      targets.push({
+        pos: new THREE.Vector3(Math.cos(angle) * rAtHeight, h, Math.sin(angle) * rAtHeight),
+        rot: new THREE.Euler(0, angle, 0)
+      });
+    }
+    return targets;
+  },
+
+  frames: (count, random) => {
+    const targets: FormationTarget[] = [];
+    const height = CONSTANTS.TREE_HEIGHT;
+    // Base radius slightly outside foliage
+    const baseRadius = CONSTANTS.TREE_RADIUS + 0.8; 
+    const dummy = new THREE.Object3D();
+
+    for (let i = 0; i < count; i++) {
+      const t = i / count;
+      
+      // Add randomness to height to break the perfect linear spiral
+      const heightJitter = (random() - 0.5) * 1.5;
+      
+      // Distribution, clamped to stay on the tree
+      let h = (t * 0.7 + 0.15) * height - (height / 2) + heightJitter;
+      h = Math.max(-height/2 + 1, Math.min(height/2 - 2, h));
+      
+      // Calculate cone radius at this specific height, with slight depth variation
+      const rAtHeight = (1 - ((h + height/2)/height)) * baseRadius;
+      const finalRadius = rAtHeight + (random() - 0.5) * 0.4;
+
+      // Golden angle distribution
+      const angle = i * 137.5 * (Math.PI / 180); 
+      const pos = new THREE.Vector3(Math.cos(angle) * finalRadius, h, Math.sin(angle) * finalRadius);
+      
+      // Face the frame outward
+      dummy.position.copy(pos);
+      dummy.lookAt(0, h, 0); 
+      dummy.rotateY(Math.PI); 
+      
+      // Add random slight tilt for "haphazardly hung" look
+      dummy.rotateZ((random() - 0.5) * 0.3);
+      dummy.rotateX((random() - 0.5) * 0.2);
+
+      targets.push({ pos, rot: dummy.rotation.clone() });
+    }
+    return targets;
+  }
+};
@@ -0,0 +1,25 @@
+import * as THREE from 'three';
+import { RandomFn } from '../utils/random';
+
+export type OrnamentKind = 'sphere' | 'box';
+
+export interface FormationTarget {
+  pos: THREE.Vector3;
+  rot: THREE.Euler;
+}
+
+// A formation is one assembled shape the particles can morph into. Every generator
+// must be pure: the same count and random stream always give the same targets.
+export interface Formation {
+  id: string;
+  name: string;
+  // Flat shapes read from the front, so the scene stops the idle spin and faces them to the camera
+  flat: boolean;
+  // Whether the gold ribbon spiral suits this shape
+  ribbon: boolean;
+  // Where the topper star sits when formed, or null to hide it
+  star: THREE.Vector3 | null;
+  foliage: (count: number, random: RandomFn) => Float32Array;
+  ornaments: (count: number, kind: OrnamentKind, random: RandomFn) => FormationTarget[];
+  frames: (count: number, random: RandomFn) => FormationTarget[];
+}
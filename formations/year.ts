@@ -0,0 +1,65 @@
+import { createFlatFormation, Point2 } from './flat';
+
+type Segment = [Point2, Point2];
+
+// Seven-segment layout in a unit cell (0..1 wide, 0..2 tall)
+const SEGMENTS: Record<string, Segment> = {
+  a: [[0, 2], [1, 2]],
+  b: [[1, 2], [1, 1]],
+  c: [[1, 1], [1, 0]],
+  d: [[1, 0], [0, 0]],
+  e: [[0, 0], [0, 1]],
+  f: [[0, 1], [0, 2]],
+  g: [[0, 1], [1, 1]]
+};
+
+const DIGITS: Record<string, string> = {
+  '0': 'abcdef', '1': 'bc', '2': 'abged', '3': 'abgcd', '4': 'fgbc',
+  '5': 'afgcd', '6': 'afgedc', '7': 'abc', '8': 'abcdefg', '9': 'abcdfg'
+};
+
+const CELL_SCALE = 2.2;
+const CELL_GAP = 1.2;
+const THICKNESS = 0.35;
+
+// Lays the digits out as line segments in tree units, centred on the origin
+const buildSegments = (text: string): Segment[] => {
+  const digits = text.split('').filter(char => DIGITS[char]);
+  const totalWidth = digits.length * CELL_SCALE + (digits.length - 1) * CELL_GAP;
+  const originX = -totalWidth / 2;
+  const originY = -CELL_SCALE;
+
+  return digits.flatMap((digit, i) => {
+    const offsetX = originX + i * (CELL_SCALE + CELL_GAP);
+    return DIGITS[digit].split('').map(name => {
+      const [p, q] = SEGMENTS[name];
+      return [
+        [offsetX + p[0] * CELL_SCALE, originY + p[1] * CELL_SCALE],
+        [offsetX + q[0] * CELL_SCALE, originY + q[1] * CELL_SCALE]
+      ] as Segment;
+    });
+  });
+};
+
+const pointOnSegment = ([p, q]: Segment, f: number): Point2 =>
+  [p[0] + (q[0] - p[0]) * f, p[1] + (q[1] - p[1]) * f];
+
+// The current year drawn as glowing seven-segment digits
+export const createYearFormation = (year = new Date().getFullYear()) => {
+  const segments = buildSegments(String(year));
+
+  return createFlatFormation('year', String(year), {
+    depth: 0.5,
+    fill: (random) => {
+      const segment = segments[Math.floor(random() * segments.length)];
+      const [x, y] = pointOnSegment(segment, random());
+      return [x + (random() - 0.5) * THICKNESS * 2, y + (random() - 0.5) * THICKNESS * 2];
+    },
+    outline: (t) => {
+      // All segments have the same length, so walking them in order is constant speed
+      const scaled = (((t % 1) + 1) % 1) * segments.length;
+      const index = Math.floor(scaled);
+      return pointOnSegment(segments[index], scaled - index);
+    }
+  });
+};
@@ -0,0 +1,105 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AudioLevels, AudioSettings, SoundEffect } from '../types';
+import { canDecodeAudioFile, createAudioEngine, isAudioSupported } from '../services/audioEngine';
+import { DEFAULT_AUDIO_SETTINGS, findSynthScore, normalizeAudioSettings, UPLOAD_TRACK_ID } from '../utils/audio';
+import { useStoredState } from './useStoredState';
+
+export interface AudioController {
+  supported: boolean;
+  settings: AudioSettings;
+  setVolume: (volume: number) => void;
+  toggleMuted: () => void;
+  setEffectsEnabled: (enabled: boolean) => void;
+  selectTrack: (trackId: string) => void;
+  uploadTrack: (file: File) => Promise<boolean>;
+  uploadedName: string | null;
+  playEffect: (effect: SoundEffect) => void;
+  // Written by `sample`, read by the scene every frame
+  levels: AudioLevels;
+  sample: (delta: number) => void;
+}
+
+// Music, effects and the analyser behind the beat-reactive visuals.
+// Nothing is audible until the first click or key press, as browsers require.
+export const useAudio = (): AudioController => {
+  const supported = isAudioSupported();
+  const engine = useMemo(() => (supported ? createAudioEngine() : null), [supported]);
+  const levels = useMemo<AudioLevels>(() => ({ level: 0, beat: 0 }), []);
+
+  const [settings, setSettings] = useStoredState('grand-luxury-tree:audio', normalizeAudioSettings, DEFAULT_AUDIO_SETTINGS);
+  const [unlocked, setUnlocked] = useState(false);
+  const [uploadedFile, setUploadedFile] = useState<File | null>(null);
+
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+
+  useEffect(() => {
+    if (!engine || unlocked) return;
+    const unlock = () => {
+      engine.unlock().then(() => setUnlocked(true)).catch(err => console.warn("Could not start audio:", err));
+    };
+    window.addEventListener('pointerdown', unlock, { once: true });
+    window.addEventListener('keydown', unlock, { once: true });
+    return () => {
+      window.removeEventListener('pointerdown', unlock);
+      window.removeEventListener('keydown', unlock);
+    };
+  }, [engine, unlocked]);
+
+  useEffect(() => () => engine?.dispose(), [engine]);
+
+  useEffect(() => {
+    engine?.setVolume(settings.volume);
+    engine?.setMuted(settings.muted);
+  }, [engine, settings.volume, settings.muted]);
+
+  // (Re)starts the chosen track; silence is only a pause, the track resumes when unmuted
+  useEffect(() => {
+    if (!engine || !unlocked) return;
+    if (settings.trackId === UPLOAD_TRACK_ID && uploadedFile) {
+      // A file that passed the upload check can still fail mid-decode; don't leave a silent track selected
+      engine.playFile(uploadedFile).catch(err => {
+        console.warn("Could not play audio file:", err);
+        setUploadedFile(null);
+        setSettings(s => ({ ...s, trackId: DEFAULT_AUDIO_SETTINGS.trackId }));
+      });
+      return;
+    }
+    const score = findSynthScore(settings.trackId);
+    if (score) engine.playScore(score);
+    else engine.stopMusic();
+  }, [engine, unlocked, settings.trackId, uploadedFile]);
+
+  const setVolume = useCallback((volume: number) => setSettings(s => ({ ...s, volume, muted: false })), [setSettings]);
+  const toggleMuted = useCallback(() => setSettings(s => ({ ...s, muted: !s.muted })), [setSettings]);
+  const setEffectsEnabled = useCallback((effects: boolean) => setSettings(s => ({ ...s, effects })), [setSettings]);
+  const selectTrack = useCallback((trackId: string) => setSettings(s => ({ ...s, trackId })), [setSettings]);
+
+  // Resolves false, keeping the current track, for files that aren't audio or can't be decoded
+  const uploadTrack = useCallback(async (file: File) => {
+    if (!file.type.startsWith('audio/') || !(await canDecodeAudioFile(file))) return false;
+    setUploadedFile(file);
+    setSettings(s => ({ ...s, trackId: UPLOAD_TRACK_ID }));
+    return true;
+  }, [setSettings]);
+
+  const playEffect = useCallback((effect: SoundEffect) => {
+    if (settingsRef.current.effects) engine?.playEffect(effect);
+  }, [engine]);
+
+  const sample = useCallback((delta: number) => engine?.sample(levels, delta), [engine, levels]);
+
+  return {
+    supported,
+    settings,
+    setVolume,
+    toggleMuted,
+    setEffectsEnabled,
+    selectTrack,
+    uploadTrack,
+    uploadedName: uploadedFile?.name ?? null,
+    playEffect,
+    levels,
+    sample
+  };
+};
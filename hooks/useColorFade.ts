@@ -0,0 +1,25 @@
+import { useEffect, useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+
+// Returns a colour that eases towards `hex` every frame, so theme switches cross-fade
+// instead of snapping. Read it from a useFrame registered after this hook.
+export const useColorFade = (hex: string, speed = 2.5) => {
+  const color = useMemo(() => new THREE.Color(hex), []);
+  const target = useMemo(() => new THREE.Color(hex), []);
+
+  useEffect(() => {
+    target.set(hex);
+  }, [hex, target]);
+
+  useFrame((_, delta) => {
+    if (color.equals(target)) return;
+    color.lerp(target, 1 - Math.exp(-speed * delta));
+
+    // Snap once the difference is imperceptible so consumers can stop updating
+    const diff = Math.abs(color.r - target.r) + Math.abs(color.g - target.g) + Math.abs(color.b - target.b);
+    if (diff < 0.001) color.copy(target);
+  });
+
+  return color;
+};
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { getFormation, getFormationsVersion, subscribeFormations } from '../formations';
+
+// Resolves a formation id and re-renders when formations are registered or replaced at runtime
+export const useFormation = (id: string) => {
+  useSyncExternalStore(subscribeFormations, getFormationsVersion);
+  return getFormation(id);
+};
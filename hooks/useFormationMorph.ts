@@ -0,0 +1,61 @@
+import { useLayoutEffect, useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { FORMATION_MORPH_SPEED, FormationTarget } from '../formations';
+
+const cloneTarget = (target: FormationTarget): FormationTarget => ({
+  pos: target.pos.clone(),
+  rot: target.rot.clone()
+});
+
+// Interpolates angles the short way round, so rotations that accumulated many turns don't spin
+const lerpAngle = (from: number, to: number, t: number) => {
+  const delta = THREE.MathUtils.euclideanModulo(to - from + Math.PI, Math.PI * 2) - Math.PI;
+  return from + delta * t;
+};
+
+// Eases a list of per-instance targets from the previous formation to the current one.
+// Read `current` from a useFrame registered after this hook.
+export const useFormationMorph = (targets: FormationTarget[]) => {
+  const state = useMemo(() => ({
+    from: [] as FormationTarget[],
+    to: [] as FormationTarget[],
+    current: [] as FormationTarget[],
+    morph: 1
+  }), []);
+
+  useLayoutEffect(() => {
+    if (state.to.length !== targets.length) {
+      // First layout or a new instance count: nothing sensible to morph from, so snap
+      state.from = targets.map(cloneTarget);
+      state.current = targets.map(cloneTarget);
+      state.morph = 1;
+    } else {
+      // Start from wherever the instances are now, even mid-morph
+      state.from = state.current.map(cloneTarget);
+      state.morph = 0;
+    }
+    state.to = targets;
+  }, [targets, state]);
+
+  useFrame((_, delta) => {
+    if (state.morph >= 1) return;
+
+    state.morph = THREE.MathUtils.damp(state.morph, 1, FORMATION_MORPH_SPEED, delta);
+    if (state.morph > 0.999) state.morph = 1;
+
+    const t = state.morph;
+    state.current.forEach((current, i) => {
+      const from = state.from[i];
+      const to = state.to[i];
+      current.pos.lerpVectors(from.pos, to.pos, t);
+      current.rot.set(
+        lerpAngle(from.rot.x, to.rot.x, t),
+        lerpAngle(from.rot.y, to.rot.y, t),
+        lerpAngle(from.rot.z, to.rot.z, t)
+      );
+    });
+  });
+
+  return state;
+};
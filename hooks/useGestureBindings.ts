@@ -0,0 +1,15 @@
+import { useStoredState } from './useStoredState';
+import { DEFAULT_GESTURE_BINDINGS, normalizeGestureBindings } from '../utils/gestures';
+
+// Gesture bindings are a per-device preference, so they live in localStorage rather than share links
+export const useGestureBindings = () => {
+  const [bindings, setBindings] = useStoredState(
+    'grand-luxury-tree:gesture-bindings',
+    normalizeGestureBindings,
+    DEFAULT_GESTURE_BINDINGS
+  );
+
+  const resetBindings = () => setBindings(DEFAULT_GESTURE_BINDINGS);
+
+  return [bindings, setBindings, resetBindings] as const;
+};
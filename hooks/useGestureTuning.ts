@@ -0,0 +1,9 @@
+import { useStoredState } from './useStoredState';
+import { DEFAULT_GESTURE_TUNING, normalizeGestureTuning } from '../utils/gestureCalibration';
+
+// Hold times, cooldowns and calibration depend on the user's camera and lighting, so they stay on this device
+export const useGestureTuning = () => useStoredState(
+  'grand-luxury-tree:gesture-tuning',
+  normalizeGestureTuning,
+  DEFAULT_GESTURE_TUNING
+);
@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { HandFrame, HandRecording } from '../types';
+import { createHandRecording, parseHandRecording, readHandReplayParam, toHandFrame } from '../utils/handRecording';
+
+export interface HandSession {
+  isRecording: boolean;
+  startRecording: () => void;
+  stopRecording: () => HandRecording | null;
+  // Fed each live recognizer result by the gesture controller; null while nothing is being recorded
+  recordFrame: ((result: Pick<HandFrame, 'gestures' | 'landmarks'>) => void) | null;
+  replay: HandRecording | null;
+  loadReplay: (file: File) => Promise<boolean>;
+  stopReplay: () => void;
+}
+
+// Captures recognizer output from the live camera, and supplies recordings to replay in its place.
+// A recording given by URL flag starts replaying on load, so demos work on machines without a camera.
+export const useHandSession = (): HandSession => {
+  const [isRecording, setIsRecording] = useState(false);
+  const [replay, setReplay] = useState<HandRecording | null>(null);
+
+  const frames = useRef<HandFrame[]>([]);
+  const startedAt = useRef(0);
+
+  const startRecording = useCallback(() => {
+    frames.current = [];
+    startedAt.current = performance.now();
+    setIsRecording(true);
+  }, []);
+
+  const stopRecording = useCallback(() => {
+    setIsRecording(false);
+    if (frames.current.length === 0) return null;
+    const recording = createHandRecording(frames.current);
+    frames.current = [];
+    return recording;
+  }, []);
+
+  const recordFrame = useCallback((result: Pick<HandFrame, 'gestures' | 'landmarks'>) => {
+    frames.current.push(toHandFrame(result, performance.now() - startedAt.current));
+  }, []);
+
+  const loadReplay = useCallback(async (file: File) => {
+    try {
+      setReplay(parseHandRecording(JSON.parse(await file.text())));
+      return true;
+    } catch (err) {
+      console.warn("Could not load hand recording:", err);
+      return false;
+    }
+  }, []);
+
+  const stopReplay = useCallback(() => setReplay(null), []);
+
+  useEffect(() => {
+    const url = readHandReplayParam();
+    if (!url) return;
+    let cancelled = false;
+    fetch(url)
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.json();
+      })
+      .then(json => {
+        if (!cancelled) setReplay(parseHandRecording(json));
+      })
+      .catch(err => console.warn(`Could not load hand recording from ${url}:`, err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return {
+    isRecording,
+    startRecording,
+    stopRecording,
+    recordFrame: isRecording ? recordFrame : null,
+    replay,
+    loadReplay,
+    stopReplay
+  };
+};
@@ -0,0 +1,36 @@
+import { useEffect, useRef } from 'react';
+
+// Key (as in KeyboardEvent.key, lower-cased for letters) → handler
+export type ShortcutMap = Record<string, (e: KeyboardEvent) => void>;
+
+// Typing into form fields must never trigger scene shortcuts
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Space and Enter keep activating whichever button has keyboard focus
+const isActivationKey = (e: KeyboardEvent) =>
+  (e.key === ' ' || e.key === 'Enter') &&
+  e.target instanceof HTMLElement &&
+  ['BUTTON', 'A'].includes(e.target.tagName);
+
+// Window-level shortcuts; the map may change identity on every render
+export const useKeyboardShortcuts = (shortcuts: ShortcutMap) => {
+  const shortcutsRef = useRef(shortcuts);
+  shortcutsRef.current = shortcuts;
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || isEditableTarget(e.target) || isActivationKey(e)) return;
+      const key = e.key.length === 1 ? e.key.toLowerCase() : e.key;
+      const handler = shortcutsRef.current[key];
+      if (!handler) return;
+      // Space and arrows would otherwise scroll or press the focused button
+      e.preventDefault();
+      handler(e);
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+};
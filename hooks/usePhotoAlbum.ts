@@ -0,0 +1,162 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { UserPhoto } from '../types';
+import {
+  addPhotos as storeAddPhotos,
+  clearPhotos as storeClearPhotos,
+  loadPhotos,
+  removePhoto as storeRemovePhoto,
+  savePhotoOrder,
+  updatePhotoCaption
+} from '../services/photoStorage';
+import { formatCaptionDate, readExifDate } from '../utils/exif';
+
+const logStorageError = (action: string) => (err: unknown) =>
+  console.warn(`Could not ${action}:`, err);
+
+// Photos shown before IndexedDB has returned their real ids
+const PENDING_ID_PREFIX = 'pending-';
+const isPendingId = (id: string) => id.startsWith(PENDING_ID_PREFIX);
+
+// Owns the ordered list of user photos, keeping React state, blob URLs and IndexedDB in sync
+export const usePhotoAlbum = () => {
+  const [photos, setPhotos] = useState<UserPhoto[]>([]);
+  const photosRef = useRef<UserPhoto[]>(photos);
+  photosRef.current = photos;
+
+  // Set once the user edits the album, so a slow restore can't overwrite their changes
+  const hasEditedRef = useRef(false);
+
+  // Captions typed while a photo is still being saved, applied once its stored id arrives
+  const pendingCaptionsRef = useRef<Map<string, string>>(new Map());
+
+  // Set when photos were added or removed; the stored order is then rewritten from the committed list,
+  // so orders stay contiguous (and legacy timestamp orders are replaced) instead of colliding after a delete
+  const orderDirtyRef = useRef(false);
+  useEffect(() => {
+    if (!orderDirtyRef.current) return;
+    orderDirtyRef.current = false;
+    const ids = photos.map(photo => photo.id).filter(id => !isPendingId(id));
+    savePhotoOrder(ids).catch(logStorageError('save photo order'));
+  }, [photos]);
+
+  // Restore photos saved in IndexedDB from a previous session. Adds wait for it, so new photos
+  // land after the restored ones instead of hiding them and colliding with their stored order.
+  const restoreRef = useRef<Promise<void>>(Promise.resolve());
+  useEffect(() => {
+    let cancelled = false;
+    restoreRef.current = loadPhotos()
+      .then(stored => {
+        if (cancelled || hasEditedRef.current || stored.length === 0) return;
+        setPhotos(stored.map(photo => ({
+          id: photo.id,
+          url: URL.createObjectURL(photo.blob),
+          caption: photo.caption
+        })));
+      })
+      .catch(logStorageError('restore saved photos'));
+
+    return () => { cancelled = true; };
+  }, []);
+
+  // Revoke the blob URL of any photo that left the album
+  const previousUrlsRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    const current = new Set(photos.map(photo => photo.url));
+    previousUrlsRef.current.forEach(url => {
+      if (!current.has(url)) URL.revokeObjectURL(url);
+    });
+    previousUrlsRef.current = current;
+  }, [photos]);
+
+  // ...and all remaining ones on unmount
+  useEffect(() => () => {
+    previousUrlsRef.current.forEach(url => URL.revokeObjectURL(url));
+    previousUrlsRef.current = new Set();
+  }, []);
+
+  const addPhotos = useCallback(async (files: File[]) => {
+    if (files.length === 0) return;
+    await restoreRef.current;
+    hasEditedRef.current = true;
+
+    // Captions default to the date the photo was taken, when the file carries one
+    const captions = await Promise.all(files.map(file =>
+      readExifDate(file)
+        .then(date => date ? formatCaptionDate(date) : '')
+        .catch(() => '')
+    ));
+
+    // Show the photos immediately with temporary ids, then swap in the stored ids
+    const startOrder = photosRef.current.length;
+    const pending = files.map((file, i) => ({
+      id: `${PENDING_ID_PREFIX}${Date.now()}-${i}`,
+      url: URL.createObjectURL(file),
+      caption: captions[i]
+    }));
+    setPhotos(prev => [...prev, ...pending]);
+
+    try {
+      const stored = await storeAddPhotos(files, startOrder, captions);
+
+      // Photos deleted while they were still being saved must not come back on reload
+      const liveIds = new Set(photosRef.current.map(photo => photo.id));
+      pending.forEach((photo, i) => {
+        if (!liveIds.has(photo.id)) storeRemovePhoto(stored[i].id).catch(logStorageError('delete photo'));
+      });
+
+      pending.forEach((photo, i) => {
+        const caption = pendingCaptionsRef.current.get(photo.id);
+        pendingCaptionsRef.current.delete(photo.id);
+        if (caption !== undefined && liveIds.has(photo.id)) {
+          updatePhotoCaption(stored[i].id, caption).catch(logStorageError('save caption'));
+        }
+      });
+
+      // Also persists any reordering done while these photos were pending
+      orderDirtyRef.current = true;
+      setPhotos(prev => prev.map(photo => {
+        const index = pending.findIndex(p => p.id === photo.id);
+        return index === -1 ? photo : { ...photo, id: stored[index].id };
+      }));
+    } catch (err) {
+      logStorageError('save photos')(err);
+    }
+  }, []);
+
+  const removePhoto = useCallback((id: string) => {
+    hasEditedRef.current = true;
+    orderDirtyRef.current = true;
+    setPhotos(prev => prev.filter(photo => photo.id !== id));
+    pendingCaptionsRef.current.delete(id);
+    if (!isPendingId(id)) storeRemovePhoto(id).catch(logStorageError('delete photo'));
+  }, []);
+
+  // Photos still being saved are deleted from storage by addPhotos once their ids arrive
+  const clearPhotos = useCallback(() => {
+    hasEditedRef.current = true;
+    pendingCaptionsRef.current.clear();
+    setPhotos([]);
+    storeClearPhotos().catch(logStorageError('clear photos'));
+  }, []);
+
+  const movePhoto = useCallback((from: number, to: number) => {
+    const current = photosRef.current;
+    if (from === to || from < 0 || to < 0 || from >= current.length || to >= current.length) return;
+    hasEditedRef.current = true;
+
+    const next = [...current];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    setPhotos(next);
+    savePhotoOrder(next.map(photo => photo.id).filter(id => !isPendingId(id))).catch(logStorageError('save photo order'));
+  }, []);
+
+  const setCaption = useCallback((id: string, caption: string) => {
+    hasEditedRef.current = true;
+    setPhotos(prev => prev.map(photo => photo.id === id ? { ...photo, caption } : photo));
+    if (isPendingId(id)) pendingCaptionsRef.current.set(id, caption);
+    else updatePhotoCaption(id, caption).catch(logStorageError('save caption'));
+  }, []);
+
+  return { photos, addPhotos, removePhoto, clearPhotos, movePhoto, setCaption };
+};
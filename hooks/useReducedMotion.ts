@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+
+const QUERY = '(prefers-reduced-motion: reduce)';
+
+const matchesQuery = () => typeof window !== 'undefined' && !!window.matchMedia?.(QUERY).matches;
+
+// Follows the OS "reduce motion" setting until the user picks a mode explicitly
+export const useReducedMotion = () => {
+  const [systemPreference, setSystemPreference] = useState(matchesQuery);
+  const [override, setOverride] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    const media = window.matchMedia?.(QUERY);
+    if (!media) return;
+    const onChange = () => setSystemPreference(media.matches);
+    media.addEventListener('change', onChange);
+    return () => media.removeEventListener('change', onChange);
+  }, []);
+
+  return [override ?? systemPreference, setOverride] as const;
+};
@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ShowAction, ShowScript } from '../types';
+import { keyframesBetween, resolveShowStateAt } from '../utils/showScript';
+
+// How often the displayed playhead is refreshed; actions themselves fire on every animation frame
+const PLAYHEAD_UPDATE_MS = 100;
+
+export interface ShowPlayer {
+  time: number;
+  isPlaying: boolean;
+  loop: boolean;
+  setLoop: (loop: boolean) => void;
+  play: () => void;
+  pause: () => void;
+  seek: (time: number) => void;
+}
+
+// Plays a show script against the live scene. `onAction` may change identity freely.
+export const useShowPlayer = (script: ShowScript, onAction: (action: ShowAction) => void): ShowPlayer => {
+  const [time, setTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [loop, setLoop] = useState(false);
+
+  const timeRef = useRef(0);
+  const loopRef = useRef(loop);
+  loopRef.current = loop;
+  const onActionRef = useRef(onAction);
+  onActionRef.current = onAction;
+
+  // Jump the scene straight to the state the script describes at `target`
+  const seek = useCallback((target: number) => {
+    const clamped = Math.min(Math.max(target, 0), script.duration);
+    resolveShowStateAt(script, clamped).forEach(action => onActionRef.current(action));
+    timeRef.current = clamped;
+    setTime(clamped);
+  }, [script]);
+
+  const play = useCallback(() => {
+    // Starting from either end replays the whole show, including its opening keyframes
+    if (timeRef.current === 0 || timeRef.current >= script.duration) seek(0);
+    setIsPlaying(true);
+  }, [script, seek]);
+
+  const pause = useCallback(() => setIsPlaying(false), []);
+
+  // A new script starts stopped at its beginning
+  useEffect(() => {
+    setIsPlaying(false);
+    timeRef.current = 0;
+    setTime(0);
+  }, [script]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let frameId: number;
+    let lastFrame = performance.now();
+    let lastPlayheadUpdate = 0;
+
+    const fire = (from: number, to: number) => {
+      keyframesBetween(script, from, to).forEach(keyframe => onActionRef.current(keyframe.action));
+    };
+
+    const tick = (now: number) => {
+      const delta = (now - lastFrame) / 1000;
+      lastFrame = now;
+
+      const from = timeRef.current;
+      let to = from + delta;
+
+      if (to >= script.duration) {
+        fire(from, script.duration);
+        if (!loopRef.current) {
+          timeRef.current = script.duration;
+          setTime(script.duration);
+          setIsPlaying(false);
+          return;
+        }
+        seek(0);
+        to = 0;
+      } else {
+        fire(from, to);
+      }
+      timeRef.current = to;
+
+      if (now - lastPlayheadUpdate > PLAYHEAD_UPDATE_MS) {
+        lastPlayheadUpdate = now;
+        setTime(to);
+      }
+      frameId = requestAnimationFrame(tick);
+    };
+
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [isPlaying, script, seek]);
+
+  return { time, isPlaying, loop, setLoop, play, pause, seek };
+};
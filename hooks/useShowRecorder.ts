@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { CameraShot, ShowAction, ShowKeyframe, ShowScript, ThemePalette, TreeState } from '../types';
+import { inputBus } from '../input';
+
+// Spins and pointer movement arrive as bursts of small updates; updates closer than this are merged
+const MERGE_WINDOW = 0.1;
+
+export interface ShowRecorderSource {
+  treeState: TreeState;
+  theme: ThemePalette;
+  formation: string;
+  focusedPhotoIndex: number | null;
+  cameraShot: CameraShot;
+}
+
+// Captures a live session as a show script: the starting state at t=0, then every change as it happens
+export const useShowRecorder = (source: ShowRecorderSource) => {
+  const [isRecording, setIsRecording] = useState(false);
+  const recordingRef = useRef(false);
+  const startedAt = useRef(0);
+  const keyframes = useRef<ShowKeyframe[]>([]);
+
+  const elapsed = () => (performance.now() - startedAt.current) / 1000;
+
+  const record = (action: ShowAction) => {
+    if (recordingRef.current) keyframes.current.push({ time: elapsed(), action });
+  };
+
+  const start = useCallback(() => {
+    startedAt.current = performance.now();
+    keyframes.current = [
+      { time: 0, action: { type: 'state', state: source.treeState } },
+      { time: 0, action: { type: 'theme', palette: source.theme } },
+      { time: 0, action: { type: 'formation', id: source.formation } },
+      { time: 0, action: { type: 'focus', index: source.focusedPhotoIndex } },
+      { time: 0, action: { type: 'camera', shot: source.cameraShot } }
+    ];
+    recordingRef.current = true;
+    setIsRecording(true);
+  }, [source.treeState, source.theme, source.formation, source.focusedPhotoIndex, source.cameraShot]);
+
+  const stop = useCallback((): ShowScript => {
+    // A drag still held when recording stops is let go, so the show never leaves the tree grabbed
+    const lastGrab = [...keyframes.current].reverse().find(keyframe => keyframe.action.type === 'grab');
+    if (lastGrab && lastGrab.action.type === 'grab' && lastGrab.action.active) {
+      record({ type: 'grab', active: false, fling: true });
+    }
+    recordingRef.current = false;
+    setIsRecording(false);
+    return {
+      name: `Recorded Show ${new Date().toLocaleString()}`,
+      duration: elapsed(),
+      keyframes: keyframes.current
+    };
+  }, []);
+
+  useEffect(() => record({ type: 'state', state: source.treeState }), [source.treeState]);
+  useEffect(() => record({ type: 'theme', palette: source.theme }), [source.theme]);
+  useEffect(() => record({ type: 'formation', id: source.formation }), [source.formation]);
+  useEffect(() => record({ type: 'focus', index: source.focusedPhotoIndex }), [source.focusedPhotoIndex]);
+  useEffect(() => record({ type: 'camera', shot: source.cameraShot }), [source.cameraShot]);
+
+  // Input that only moves things around, rather than changing state, is taken straight off the bus
+  useEffect(() => inputBus.subscribeAll((intent, from) => {
+    if (!recordingRef.current) return;
+    const time = elapsed();
+    const last = keyframes.current[keyframes.current.length - 1];
+
+    switch (intent.type) {
+      case 'spin':
+        if (last && last.action.type === 'spin' && time - last.time < MERGE_WINDOW) {
+          last.action.velocity += intent.velocity;
+        } else {
+          record({ type: 'spin', velocity: intent.velocity });
+        }
+        break;
+      // Drags are kept step by step: on release the tree keeps the last step's speed, so merging would change the fling
+      case 'grab':
+        record({ type: 'grab', active: intent.active, fling: intent.fling });
+        break;
+      case 'rotate':
+        record({ type: 'rotate', deltaY: intent.deltaY, deltaX: intent.deltaX });
+        break;
+      // The hand is left out: it takes over from the pointer live, and a replay has a single dust target
+      case 'attract':
+        if (from === 'gesture') break;
+        if (last && last.action.type === 'attract' && time - last.time < MERGE_WINDOW) {
+          last.action.point = intent.point;
+        } else {
+          record({ type: 'attract', point: intent.point });
+        }
+        break;
+    }
+  }), []);
+
+  return { isRecording, start, stop };
+};
@@ -0,0 +1,39 @@
+import { useEffect, useRef, useState } from 'react';
+
+export const SLIDESHOW_DWELL_OPTIONS = [3, 5, 8, 12];
+
+export interface Slideshow {
+  isPlaying: boolean;
+  dwell: number; // Seconds each photo stays in focus
+  setDwell: (seconds: number) => void;
+  play: () => void;
+  pause: () => void;
+}
+
+// Advances the focused photo every `dwell` seconds. The timer restarts whenever the focus changes,
+// so stepping by hand mid-slideshow still gives the new photo its full dwell. It also restarts after
+// every advance, as with a single photo the focus never changes.
+export const useSlideshow = (focusedIndex: number | null, advance: () => void): Slideshow => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [dwell, setDwell] = useState(SLIDESHOW_DWELL_OPTIONS[1]);
+  const [ticks, setTicks] = useState(0);
+  const advanceRef = useRef(advance);
+  advanceRef.current = advance;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = window.setTimeout(() => {
+      advanceRef.current();
+      setTicks(tick => tick + 1);
+    }, dwell * 1000);
+    return () => window.clearTimeout(timer);
+  }, [isPlaying, dwell, focusedIndex, ticks]);
+
+  return {
+    isPlaying,
+    dwell,
+    setDwell,
+    play: () => setIsPlaying(true),
+    pause: () => setIsPlaying(false)
+  };
+};
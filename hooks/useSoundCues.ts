@@ -0,0 +1,36 @@
+import { useEffect, useRef } from 'react';
+import { SoundEffect, TreeState } from '../types';
+import { useInputIntent } from '../input';
+
+// A drag released while turning at least this fast (radians per move) counts as a spin
+const SPIN_RELEASE_SPEED = 0.02;
+
+// Plays effects for the moments worth hearing: transitions, photo focus and spins
+export const useSoundCues = (
+  playEffect: (effect: SoundEffect) => void,
+  treeState: TreeState,
+  focusedPhotoIndex: number | null
+) => {
+  const previousState = useRef(treeState);
+  useEffect(() => {
+    if (previousState.current === treeState) return;
+    previousState.current = treeState;
+    playEffect(treeState === TreeState.FORMED ? 'assemble' : 'scatter');
+  }, [treeState]);
+
+  useEffect(() => {
+    if (focusedPhotoIndex !== null) playEffect('focus');
+  }, [focusedPhotoIndex]);
+
+  useInputIntent('spin', () => playEffect('spin'));
+
+  // Drags and pinch-grabs only whoosh when they are let go with some speed
+  const lastTurn = useRef(0);
+  useInputIntent('rotate', ({ deltaY }) => {
+    lastTurn.current = Math.abs(deltaY);
+  });
+  useInputIntent('grab', ({ active, fling }) => {
+    if (!active && fling && lastTurn.current >= SPIN_RELEASE_SPEED) playEffect('spin');
+    lastTurn.current = 0;
+  });
+};
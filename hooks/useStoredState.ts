@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react';
+
+// State mirrored to localStorage under `key`. Stored values pass through `normalize`,
+// so older or hand-edited saves can never put the app into an invalid state.
+export const useStoredState = <T,>(key: string, normalize: (stored: unknown) => T, fallback: T) => {
+  const [value, setValue] = useState<T>(() => {
+    try {
+      const stored = localStorage.getItem(key);
+      return stored ? normalize(JSON.parse(stored)) : fallback;
+    } catch (err) {
+      console.warn(`Ignoring unreadable setting "${key}":`, err);
+      return fallback;
+    }
+  });
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(key, JSON.stringify(value));
+    } catch (err) {
+      console.warn(`Could not save setting "${key}":`, err);
+    }
+  }, [key, value]);
+
+  return [value, setValue] as const;
+};
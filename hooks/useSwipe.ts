@@ -0,0 +1,38 @@
+import { useEffect } from 'react';
+import { getPointerSource, inputBus } from '../input';
+
+// A swipe is a quick, mostly horizontal drag
+const MIN_DISTANCE = 60;
+const MAX_DURATION_MS = 600;
+const MIN_HORIZONTAL_RATIO = 1.5;
+
+// Turns a swipe to the left into a `focusStep` of 1 (next), and a swipe to the right into -1
+export const useSwipe = (enabled: boolean) => {
+  useEffect(() => {
+    if (!enabled) return;
+    let start: { x: number; y: number; time: number } | null = null;
+
+    // Only drags that begin on the 3D scene count; panels have their own drag interactions
+    const onPointerDown = (e: PointerEvent) => {
+      if (!(e.target instanceof HTMLCanvasElement)) return;
+      start = { x: e.clientX, y: e.clientY, time: performance.now() };
+    };
+    const onPointerUp = (e: PointerEvent) => {
+      if (!start) return;
+      const dx = e.clientX - start.x;
+      const dy = e.clientY - start.y;
+      const elapsed = performance.now() - start.time;
+      start = null;
+      if (Math.abs(dx) >= MIN_DISTANCE && Math.abs(dx) >= Math.abs(dy) * MIN_HORIZONTAL_RATIO && elapsed <= MAX_DURATION_MS) {
+        inputBus.emit({ type: 'focusStep', step: dx < 0 ? 1 : -1 }, getPointerSource(e));
+      }
+    };
+
+    window.addEventListener('pointerdown', onPointerDown);
+    window.addEventListener('pointerup', onPointerUp);
+    return () => {
+      window.removeEventListener('pointerdown', onPointerDown);
+      window.removeEventListener('pointerup', onPointerUp);
+    };
+  }, [enabled]);
+};
@@ -0,0 +1,105 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { TreeState } from '../types';
+import { captureCanvas, isVideoCaptureSupported } from '../services/videoCapture';
+
+// Long enough for the tree's progress damping to fully settle, so a loop's last frame matches its first
+const LOOP_SETTLE_SECONDS = 5;
+
+export const VIDEO_DURATIONS = [5, 10, 15, 30];
+export const VIDEO_FRAME_RATES = [24, 30, 60];
+
+export type VideoRecorderStatus = 'idle' | 'preparing' | 'recording';
+
+export interface VideoRecordingOptions {
+  duration: number; // Ignored for loops, which always last one full cycle
+  fps: number;
+  loopCycle: boolean;
+  audio: File | null;
+}
+
+export interface VideoRecorder {
+  isSupported: boolean;
+  status: VideoRecorderStatus;
+  progress: number; // 0-1 through the current recording
+  result: Blob | null;
+  error: string | null;
+  start: (options: VideoRecordingOptions) => void;
+  stop: () => void;
+}
+
+const wait = (seconds: number, signal: AbortSignal) => new Promise<void>(resolve => {
+  const timer = window.setTimeout(resolve, seconds * 1000);
+  signal.addEventListener('abort', () => {
+    window.clearTimeout(timer);
+    resolve();
+  });
+});
+
+// Drives a canvas capture, and for loop recordings also choreographs the CHAOS → FORMED → CHAOS cycle
+export const useVideoRecorder = (
+  canvasRef: React.RefObject<HTMLCanvasElement | null>,
+  treeState: TreeState,
+  setTreeState: (state: TreeState) => void
+): VideoRecorder => {
+  const [status, setStatus] = useState<VideoRecorderStatus>('idle');
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<Blob | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const treeStateRef = useRef(treeState);
+  treeStateRef.current = treeState;
+
+  const start = useCallback(async (options: VideoRecordingOptions) => {
+    const canvas = canvasRef.current;
+    if (!canvas || abortRef.current) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setResult(null);
+    setError(null);
+    setProgress(0);
+
+    try {
+      let duration = options.duration;
+      if (options.loopCycle) {
+        duration = LOOP_SETTLE_SECONDS * 2;
+        // Start from a fully scattered tree so the loop begins and ends on the same frame
+        if (treeStateRef.current !== TreeState.CHAOS) {
+          setStatus('preparing');
+          setTreeState(TreeState.CHAOS);
+          await wait(LOOP_SETTLE_SECONDS, controller.signal);
+          if (controller.signal.aborted) return;
+        }
+      }
+
+      setStatus('recording');
+      const capture = captureCanvas(canvas, {
+        duration,
+        fps: options.fps,
+        audio: options.audio,
+        signal: controller.signal,
+        onProgress: (elapsed) => setProgress(elapsed / duration)
+      });
+
+      if (options.loopCycle) {
+        setTreeState(TreeState.FORMED);
+        wait(LOOP_SETTLE_SECONDS, controller.signal).then(() => setTreeState(TreeState.CHAOS));
+      }
+
+      setResult(await capture);
+    } catch (err) {
+      console.warn("Video recording failed:", err);
+      setError(err instanceof Error ? err.message : 'Video recording failed');
+    } finally {
+      abortRef.current = null;
+      setStatus('idle');
+    }
+  }, [canvasRef, setTreeState]);
+
+  const stop = useCallback(() => abortRef.current?.abort(), []);
+
+  // Never leave the recorder running behind an unmounted app
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  return { isSupported: isVideoCaptureSupported(), status, progress, result, error, start, stop };
+};
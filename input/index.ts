@@ -0,0 +1,5 @@
+export * from './intents';
+export { createInputBus, inputBus } from './inputBus';
+export type { InputBus } from './inputBus';
+export { useInputIntent } from './useInputIntent';
+export { getPointerSource, usePointerAttract, usePointerDrag } from './pointer';
@@ -0,0 +1,59 @@
+import { InputIntent, InputIntentType, InputSource, IntentHandler, IntentOf } from './intents';
+
+export interface InputBus {
+  // Delivers synchronously, in subscription order; returns whether a handler claimed the intent
+  emit: (intent: InputIntent, source: InputSource) => boolean;
+  subscribe: <T extends InputIntentType>(type: T, handler: IntentHandler<T>) => () => void;
+  // Sees every intent after the typed handlers, e.g. for recording sessions
+  subscribeAll: (listener: (intent: InputIntent, source: InputSource) => void) => () => void;
+}
+
+// Keyed by intent type, so each set only ever holds handlers for that intent
+type HandlerSets = { [T in InputIntentType]?: Set<IntentHandler<T>> };
+
+export const createInputBus = (): InputBus => {
+  const handlers: HandlerSets = {};
+  const listeners = new Set<(intent: InputIntent, source: InputSource) => void>();
+
+  const handlersFor = <T extends InputIntentType>(type: T): Set<IntentHandler<T>> => {
+    const existing = handlers[type];
+    if (existing) return existing;
+    const set = new Set<IntentHandler<T>>();
+    // TypeScript can't check writes through a generic key, but this set only holds handlers for `type`
+    (handlers as Partial<Record<T, Set<IntentHandler<T>>>>)[type] = set;
+    return set;
+  };
+
+  // Returns whether a handler claimed the intent
+  const deliver = <T extends InputIntentType>(type: T, intent: IntentOf<T>, source: InputSource) => {
+    // Copy so handlers may unsubscribe (or subscribe) while being called
+    for (const handler of [...handlersFor(type)]) {
+      if (handler(intent, source) === true) return true;
+    }
+    return false;
+  };
+
+  return {
+    emit: (intent, source) => {
+      const claimed = deliver(intent.type, intent, source);
+      listeners.forEach(listener => listener(intent, source));
+      return claimed;
+    },
+    subscribe: (type, handler) => {
+      const set = handlersFor(type);
+      set.add(handler);
+      return () => {
+        set.delete(handler);
+      };
+    },
+    subscribeAll: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+};
+
+// The app has a single input stream, shared between the DOM overlay and the R3F scene
+export const inputBus = createInputBus();
@@ -0,0 +1,26 @@
+import { TreeState } from '../types';
+
+// Where an intent came from. Scene code reacts to intents, not devices, but some consumers
+// (e.g. the hand status pill, recorders) still care about the origin.
+export type InputSource = 'pointer' | 'touch' | 'keyboard' | 'gesture' | 'show';
+
+// Semantic input, normalized from every device. Positions are NDC (-1..1, +y up).
+export type InputIntent =
+  | { type: 'spin'; velocity: number } // Impulse added to the tree's yaw velocity
+  | { type: 'attract'; point: { x: number; y: number } | null } // Dust follows the point; null releases it
+  | { type: 'hover'; point: { x: number; y: number } | null } // Pointing into the scene without pressing; null when gone
+  | { type: 'grab'; active: boolean; fling?: boolean } // Direct manipulation starts/ends; fling keeps inertia
+  | { type: 'rotate'; deltaY: number; deltaX: number } // Radians while grabbed
+  | { type: 'tilt'; angle: number } // Roll target in radians, 0 to release
+  | { type: 'zoom'; factor: number } // Multiplies the camera distance
+  | { type: 'select'; x: number; y: number } // Point-and-pick; a handler may claim it
+  | { type: 'setState'; state: TreeState | 'toggle' }
+  | { type: 'focus'; index: number | null }
+  | { type: 'focusStep'; step: 1 | -1 };
+
+export type InputIntentType = InputIntent['type'];
+
+export type IntentOf<T extends InputIntentType> = Extract<InputIntent, { type: T }>;
+
+// Returning true claims the intent: later handlers are skipped and emit() reports it as handled
+export type IntentHandler<T extends InputIntentType> = (intent: IntentOf<T>, source: InputSource) => boolean | void;
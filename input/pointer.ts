@@ -0,0 +1,73 @@
+import { useEffect, useRef } from 'react';
+import { ThreeEvent } from '@react-three/fiber';
+import { inputBus } from './inputBus';
+import { InputSource } from './intents';
+
+// Pointer Events cover mouse, pen and touch alike; only the source label differs
+export const getPointerSource = (e: { pointerType: string }): InputSource =>
+  e.pointerType === 'touch' ? 'touch' : 'pointer';
+
+// Radians of rotation per pixel dragged
+const DRAG_SENSITIVITY = 0.0025;
+
+// "Swipe to spin": dragging on a mesh grabs the tree and turns it, releasing keeps the inertia.
+// Returns handlers for the R3F group the drag should start on.
+export const usePointerDrag = (enabled: boolean) => {
+  const dragRef = useRef<{ x: number; y: number; source: InputSource } | null>(null);
+
+  const end = () => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    dragRef.current = null;
+    inputBus.emit({ type: 'grab', active: false, fling: true }, drag.source);
+  };
+
+  // A drag can end anywhere on the page, not just over the tree
+  useEffect(() => {
+    window.addEventListener('pointerup', end);
+    window.addEventListener('pointercancel', end);
+    return () => {
+      window.removeEventListener('pointerup', end);
+      window.removeEventListener('pointercancel', end);
+    };
+  }, []);
+
+  const onPointerDown = (e: ThreeEvent<PointerEvent>) => {
+    // If we clicked a photo, the photo component has already handled it
+    if (e.defaultPrevented || !enabled) return;
+    e.stopPropagation();
+    dragRef.current = { x: e.clientX, y: e.clientY, source: getPointerSource(e) };
+    inputBus.emit({ type: 'grab', active: true }, dragRef.current.source);
+  };
+
+  const onPointerMove = (e: ThreeEvent<PointerEvent>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const deltaX = e.clientX - drag.x;
+    const deltaY = e.clientY - drag.y;
+    drag.x = e.clientX;
+    drag.y = e.clientY;
+    inputBus.emit({ type: 'rotate', deltaY: deltaX * DRAG_SENSITIVITY, deltaX: deltaY * DRAG_SENSITIVITY }, drag.source);
+  };
+
+  return { onPointerDown, onPointerMove, onPointerUp: end, onPointerLeave: end };
+};
+
+// Moving the mouse (or a finger) over the scene draws the magic dust towards it
+export const usePointerAttract = () => {
+  useEffect(() => {
+    const onPointerMove = (e: PointerEvent) => {
+      // Only over the 3D scene; panels sit on top of it
+      if (!(e.target instanceof HTMLCanvasElement)) return;
+      const rect = e.target.getBoundingClientRect();
+      const point = {
+        x: ((e.clientX - rect.left) / rect.width) * 2 - 1,
+        y: -(((e.clientY - rect.top) / rect.height) * 2 - 1)
+      };
+      inputBus.emit({ type: 'attract', point }, getPointerSource(e));
+    };
+
+    window.addEventListener('pointermove', onPointerMove);
+    return () => window.removeEventListener('pointermove', onPointerMove);
+  }, []);
+};
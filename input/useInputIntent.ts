@@ -0,0 +1,14 @@
+import { useEffect, useRef } from 'react';
+import { inputBus } from './inputBus';
+import { InputIntentType, IntentHandler } from './intents';
+
+// Subscribes for the component's lifetime; the handler may change identity on every render
+export const useInputIntent = <T extends InputIntentType>(type: T, handler: IntentHandler<T>) => {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(
+    () => inputBus.subscribe(type, (intent, source) => handlerRef.current(intent, source)),
+    [type]
+  );
+};
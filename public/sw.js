@@ -0,0 +1,145 @@
+// Offline support for venue installs.
+// - The app shell and local MediaPipe assets are precached on install.
+// - Hashed build output and the MediaPipe files are served cache-first (they never change in place).
+// - Navigations go network-first so a new deploy is picked up, falling back to the cached shell.
+// - Cross-origin CDNs (fonts, Tailwind, import-map modules) are stale-while-revalidate, so the
+//   first online visit is enough to run with no network afterwards.
+// The cache is named after the build that registered the worker; older caches are dropped on activate.
+const CACHE_NAME = `grand-luxury-tree-${new URL(self.location.href).searchParams.get('build') || 'dev'}`;
+
+const SHELL = ['./', './index.html', './manifest.webmanifest', './icon.svg'];
+
+const MEDIAPIPE_ASSETS = [
+  './mediapipe/gesture_recognizer.task',
+  './mediapipe/wasm/vision_wasm_internal.js',
+  './mediapipe/wasm/vision_wasm_internal.wasm',
+  './mediapipe/wasm/vision_wasm_nosimd_internal.js',
+  './mediapipe/wasm/vision_wasm_nosimd_internal.wasm'
+];
+
+// The static host answers unknown paths with index.html (200), which must never be cached as an asset
+const isCacheable = (request, response) => {
+  if (!response.ok) return false;
+  const isHtml = (response.headers.get('content-type') || '').includes('text/html');
+  return !isHtml || request.mode === 'navigate' || request.destination === 'document';
+};
+
+// Opaque responses are only usable by no-cors requests, e.g. a plain <script> or <img>
+const isUsableFor = (request, response) => response.type !== 'opaque' || request.mode === 'no-cors';
+
+const putIfCacheable = async (cache, request, response) => {
+  if (isCacheable(request, response)) await cache.put(request, response);
+};
+
+// Best effort: a missing model must not prevent the rest of the app from installing
+const cacheAll = async (cache, urls) => {
+  await Promise.all(
+    urls.map(async url => {
+      try {
+        const request = new Request(url);
+        await putIfCacheable(cache, request, await fetch(request));
+      } catch (err) {
+        console.warn('[sw] could not precache', url, err);
+      }
+    })
+  );
+};
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(CACHE_NAME).then(cache => cacheAll(cache, [...SHELL, ...MEDIAPIPE_ASSETS])).then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// The page reports what it loaded before the worker took control, so the first visit is cached too
+self.addEventListener('message', event => {
+  if (event.data?.type !== 'CACHE_URLS' || !Array.isArray(event.data.urls)) return;
+  event.waitUntil(
+    caches.open(CACHE_NAME).then(async cache => {
+      for (const url of event.data.urls) {
+        if (await cache.match(url)) continue;
+        try {
+          // CORS mode, so the cached copy can also answer fonts and modules that are fetched with CORS
+          const request = new Request(url, { mode: new URL(url).origin === self.location.origin ? 'same-origin' : 'cors' });
+          await putIfCacheable(cache, request, await fetch(request));
+        } catch (err) {
+          console.warn('[sw] could not cache', url, err);
+        }
+      }
+    })
+  );
+});
+
+const cacheFirst = async request => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (isCacheable(request, response)) {
+    const cache = await caches.open(CACHE_NAME);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+const networkFirst = async request => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(CACHE_NAME);
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (err) {
+    const cached = (await caches.match(request)) || (await caches.match('./index.html')) || (await caches.match('./'));
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+const staleWhileRevalidate = async request => {
+  const cache = await caches.open(CACHE_NAME);
+  const match = await cache.match(request);
+  const cached = match && isUsableFor(request, match) ? match : undefined;
+  const network = fetch(request)
+    .then(response => {
+      if (isCacheable(request, response) || (response.type === 'opaque' && request.mode === 'no-cors')) {
+        cache.put(request, response.clone());
+      }
+      return response;
+    })
+    .catch(err => {
+      if (cached) return cached;
+      throw err;
+    });
+  return cached || network;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+    return;
+  }
+
+  if (url.origin === self.location.origin) {
+    // Photos are blob: URLs and the camera is a MediaStream, so everything left here is static
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+
+  event.respondWith(staleWhileRevalidate(request));
+});
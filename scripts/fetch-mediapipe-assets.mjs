@@ -0,0 +1,50 @@
+// Copies the MediaPipe wasm runtime out of node_modules and downloads the gesture model into
+// public/mediapipe/, so the app (and its service worker) can serve them without internet.
+// Safe to re-run: files that are already present are left alone, and a failed model download
+// only warns because the app falls back to the CDN when the local copy is missing.
+import { copyFile, mkdir, readdir, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const target = path.join(root, 'public', 'mediapipe');
+const wasmSource = path.join(root, 'node_modules', '@mediapipe', 'tasks-vision', 'wasm');
+const wasmTarget = path.join(target, 'wasm');
+
+const MODEL_FILE = 'gesture_recognizer.task';
+const MODEL_URL = `https://storage.googleapis.com/mediapipe-models/gesture_recognizer/gesture_recognizer/float16/1/${MODEL_FILE}`;
+
+const exists = async (file) => {
+  try {
+    return (await stat(file)).size > 0;
+  } catch {
+    return false;
+  }
+};
+
+const copyWasm = async () => {
+  await mkdir(wasmTarget, { recursive: true });
+  const files = await readdir(wasmSource);
+  for (const file of files) {
+    await copyFile(path.join(wasmSource, file), path.join(wasmTarget, file));
+  }
+  console.log(`mediapipe: copied ${files.length} wasm files`);
+};
+
+const fetchModel = async () => {
+  const modelPath = path.join(target, MODEL_FILE);
+  if (await exists(modelPath)) return;
+
+  try {
+    const response = await fetch(MODEL_URL);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    await writeFile(modelPath, Buffer.from(await response.arrayBuffer()));
+    console.log(`mediapipe: downloaded ${MODEL_FILE}`);
+  } catch (err) {
+    console.warn(`mediapipe: could not download ${MODEL_FILE} (${err.message}).`);
+    console.warn(`mediapipe: place it in public/mediapipe/ manually for offline use.`);
+  }
+};
+
+await copyWasm();
+await fetchModel();
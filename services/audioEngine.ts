@@ -0,0 +1,333 @@
+// WebAudio graph for background music, sound effects and the analyser that drives beat-reactive visuals.
+//
+//   music (synth score or local file) → musicGain → analyser ┐
+//                                              effects → sfxGain ┴→ master → speakers
+//
+// The analyser only hears the music, so visuals follow the song rather than the UI sounds,
+// and it sits before the master volume so turning the music down doesn't flatten the visuals.
+import { AudioLevels, SoundEffect } from '../types';
+import { midiToFrequency, SynthScore, SynthVoice } from '../utils/audio';
+
+export interface AudioEngine {
+  // Browsers only allow audio to start from a user gesture; call this from one
+  unlock: () => Promise<void>;
+  setVolume: (volume: number) => void;
+  setMuted: (muted: boolean) => void;
+  playScore: (score: SynthScore) => void;
+  // Rejects, leaving no music playing, when the file can't be decoded
+  playFile: (file: File) => Promise<void>;
+  stopMusic: () => void;
+  playEffect: (effect: SoundEffect) => void;
+  // Reads the analyser into `levels`; called once per rendered frame
+  sample: (levels: AudioLevels, delta: number) => void;
+  dispose: () => void;
+}
+
+export const isAudioSupported = () => typeof AudioContext !== 'undefined';
+
+// Loads just the file's metadata, which fails fast for anything the browser can't decode
+export const canDecodeAudioFile = (file: File) => new Promise<boolean>(resolve => {
+  const url = URL.createObjectURL(file);
+  const element = new Audio();
+  const done = (ok: boolean) => {
+    element.onloadedmetadata = null;
+    element.onerror = null;
+    element.removeAttribute('src');
+    URL.revokeObjectURL(url);
+    resolve(ok);
+  };
+  element.onloadedmetadata = () => done(true);
+  element.onerror = () => done(false);
+  element.preload = 'metadata';
+  element.src = url;
+});
+
+// Notes are scheduled this far ahead by a timer, so timing stays tight even when frames drop
+const SCHEDULE_AHEAD = 0.2;
+const SCHEDULER_INTERVAL_MS = 50;
+
+// The same effect retriggered faster than this (e.g. a burst of spins) plays only once
+const EFFECT_MIN_GAP = 0.15;
+
+// Beat detection: bass energy jumping this far above its running average counts as a beat
+const BEAT_RATIO = 1.3;
+const BEAT_MIN_ENERGY = 0.08;
+const BEAT_MIN_GAP = 0.25;
+const BEAT_DECAY = 6;
+const BASS_CUTOFF_HZ = 160;
+
+// Muting fades out over this long, then suspends the context so silent notes cost no CPU
+const MUTE_FADE_MS = 200;
+
+const MUSIC_LEVEL = 0.5;
+const EFFECTS_LEVEL = 0.35;
+
+export const createAudioEngine = (): AudioEngine => {
+  let context: AudioContext | null = null;
+  let master: GainNode;
+  let musicGain: GainNode;
+  let sfxGain: GainNode;
+  let analyser: AnalyserNode;
+  let timeData: Uint8Array<ArrayBuffer>;
+  let frequencyData: Uint8Array<ArrayBuffer>;
+  let noiseBuffer: AudioBuffer;
+
+  let volume = 1;
+  let muted = false;
+
+  let scheduler: ReturnType<typeof setInterval> | null = null;
+  let fileElement: HTMLAudioElement | null = null;
+  let fileSource: MediaElementAudioSourceNode | null = null;
+  let fileUrl: string | null = null;
+
+  const lastEffectAt: Partial<Record<SoundEffect, number>> = {};
+  let bassAverage = 0;
+  let lastBeatAt = 0;
+
+  const ensureContext = () => {
+    if (context) return context;
+    context = new AudioContext();
+    master = context.createGain();
+    musicGain = context.createGain();
+    sfxGain = context.createGain();
+    analyser = context.createAnalyser();
+    analyser.fftSize = 1024;
+    analyser.smoothingTimeConstant = 0.6;
+
+    musicGain.gain.value = MUSIC_LEVEL;
+    sfxGain.gain.value = EFFECTS_LEVEL;
+    musicGain.connect(analyser).connect(master);
+    sfxGain.connect(master);
+    master.connect(context.destination);
+    applyVolume();
+
+    timeData = new Uint8Array(analyser.fftSize);
+    frequencyData = new Uint8Array(analyser.frequencyBinCount);
+
+    // One second of white noise, reused by every whoosh
+    noiseBuffer = context.createBuffer(1, context.sampleRate, context.sampleRate);
+    const samples = noiseBuffer.getChannelData(0);
+    for (let i = 0; i < samples.length; i++) samples[i] = Math.random() * 2 - 1;
+    return context;
+  };
+
+  const applyVolume = () => {
+    if (!context) return;
+    master.gain.setTargetAtTime(muted ? 0 : volume, context.currentTime, 0.05);
+  };
+
+  // A decaying tone; music box and bells add a quiet overtone for their characteristic shimmer
+  const playTone = (
+    destination: AudioNode,
+    voice: SynthVoice,
+    frequency: number,
+    start: number,
+    duration: number,
+    velocity = 1
+  ) => {
+    const ctx = context!;
+    const partials: [number, number, OscillatorType][] =
+      voice === 'bass' ? [[1, 1, 'triangle']]
+      : voice === 'bells' ? [[1, 1, 'sine'], [2.76, 0.25, 'sine']]
+      : [[1, 1, 'sine'], [2, 0.3, 'sine'], [4, 0.08, 'sine']];
+    const decay = voice === 'bass' ? Math.min(duration, 0.9) : voice === 'bells' ? 3 : 1.4;
+    const peak = (voice === 'bass' ? 0.35 : 0.22) * velocity;
+
+    const envelope = ctx.createGain();
+    envelope.gain.setValueAtTime(0.0001, start);
+    envelope.gain.exponentialRampToValueAtTime(peak, start + 0.006);
+    envelope.gain.exponentialRampToValueAtTime(0.0001, start + decay);
+    envelope.connect(destination);
+
+    partials.forEach(([ratio, level, type]) => {
+      const oscillator = ctx.createOscillator();
+      const gain = ctx.createGain();
+      oscillator.type = type;
+      oscillator.frequency.value = frequency * ratio;
+      gain.gain.value = level;
+      oscillator.connect(gain).connect(envelope);
+      oscillator.start(start);
+      oscillator.stop(start + decay + 0.05);
+    });
+  };
+
+  // Band-passed noise swept between two frequencies
+  const playWhoosh = (start: number, duration: number, fromHz: number, toHz: number, level: number) => {
+    const ctx = context!;
+    const source = ctx.createBufferSource();
+    source.buffer = noiseBuffer;
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'bandpass';
+    filter.Q.value = 1.5;
+    filter.frequency.setValueAtTime(fromHz, start);
+    filter.frequency.exponentialRampToValueAtTime(toHz, start + duration);
+    const envelope = ctx.createGain();
+    envelope.gain.setValueAtTime(0.0001, start);
+    envelope.gain.exponentialRampToValueAtTime(level, start + duration * 0.3);
+    envelope.gain.exponentialRampToValueAtTime(0.0001, start + duration);
+    source.connect(filter).connect(envelope).connect(sfxGain);
+    source.start(start);
+    source.stop(start + duration + 0.05);
+  };
+
+  const stopMusic = () => {
+    if (scheduler) clearInterval(scheduler);
+    scheduler = null;
+    if (fileElement) {
+      fileElement.pause();
+      fileSource?.disconnect();
+      fileElement = null;
+      fileSource = null;
+    }
+    if (fileUrl) URL.revokeObjectURL(fileUrl);
+    fileUrl = null;
+  };
+
+  return {
+    unlock: async () => {
+      const ctx = ensureContext();
+      // A muted session stays suspended until it is unmuted
+      if (!muted && ctx.state === 'suspended') await ctx.resume();
+    },
+
+    setVolume: value => {
+      volume = value;
+      applyVolume();
+    },
+
+    // While suspended, the clock stops, so the score scheduler creates no notes nobody would hear
+    setMuted: value => {
+      muted = value;
+      applyVolume();
+      if (!context) return;
+      const ctx = context;
+      if (!muted) {
+        ctx.resume().catch(() => {});
+        return;
+      }
+      setTimeout(() => {
+        if (muted && ctx.state === 'running') ctx.suspend().catch(() => {});
+      }, MUTE_FADE_MS);
+    },
+
+    playScore: score => {
+      stopMusic();
+      const ctx = ensureContext();
+      const secondsPerBeat = 60 / score.bpm;
+      const loopSeconds = score.lengthBeats * secondsPerBeat;
+      let loopStart = ctx.currentTime + 0.1;
+      let scheduledUntil = loopStart;
+
+      // Schedules every note starting in [scheduledUntil, now + SCHEDULE_AHEAD), wrapping at the loop end
+      const schedule = () => {
+        const horizon = ctx.currentTime + SCHEDULE_AHEAD;
+        // After the timer was throttled (background tab), skip the missed notes instead of playing them in a burst
+        scheduledUntil = Math.max(scheduledUntil, ctx.currentTime);
+        while (scheduledUntil < horizon) {
+          const windowEnd = Math.min(horizon, loopStart + loopSeconds);
+          score.notes.forEach(note => {
+            const start = loopStart + note.beat * secondsPerBeat;
+            if (start >= scheduledUntil && start < windowEnd) {
+              playTone(musicGain, note.voice, midiToFrequency(note.midi), start, note.beats * secondsPerBeat);
+            }
+          });
+          scheduledUntil = windowEnd;
+          if (windowEnd >= loopStart + loopSeconds) loopStart += loopSeconds;
+        }
+      };
+      schedule();
+      scheduler = setInterval(schedule, SCHEDULER_INTERVAL_MS);
+    },
+
+    playFile: async file => {
+      stopMusic();
+      const ctx = ensureContext();
+      fileUrl = URL.createObjectURL(file);
+      fileElement = new Audio(fileUrl);
+      fileElement.loop = true;
+      fileSource = ctx.createMediaElementSource(fileElement);
+      fileSource.connect(musicGain);
+      try {
+        await fileElement.play();
+      } catch (err) {
+        // Releases the element, the source node and the object URL
+        stopMusic();
+        throw err;
+      }
+    },
+
+    stopMusic,
+
+    playEffect: effect => {
+      if (!context || context.state !== 'running') return;
+      const now = context.currentTime;
+      if (now - (lastEffectAt[effect] ?? -Infinity) < EFFECT_MIN_GAP) return;
+      lastEffectAt[effect] = now;
+
+      switch (effect) {
+        case 'assemble':
+          // Rising C major arpeggio with a shimmer of air
+          [72, 76, 79, 84, 88].forEach((midi, i) =>
+            playTone(sfxGain, 'musicBox', midiToFrequency(midi), now + i * 0.07, 1.2, 0.8)
+          );
+          playWhoosh(now, 0.8, 400, 4000, 0.25);
+          break;
+        case 'scatter':
+          // The same arpeggio falling, over a downward sweep
+          [88, 84, 79, 76, 72].forEach((midi, i) =>
+            playTone(sfxGain, 'bells', midiToFrequency(midi), now + i * 0.06, 1.2, 0.6)
+          );
+          playWhoosh(now, 0.9, 3000, 200, 0.35);
+          break;
+        case 'focus':
+          playTone(sfxGain, 'bells', midiToFrequency(81), now, 1.5, 0.9);
+          playTone(sfxGain, 'bells', midiToFrequency(93), now + 0.05, 1.5, 0.4);
+          break;
+        case 'spin':
+          playWhoosh(now, 0.45, 300, 1800, 0.3);
+          break;
+      }
+    },
+
+    sample: (levels, delta) => {
+      const decay = Math.exp(-BEAT_DECAY * delta);
+      if (!context || context.state !== 'running' || muted || volume === 0) {
+        levels.level *= decay;
+        levels.beat *= decay;
+        return;
+      }
+
+      // Loudness: RMS of the waveform, eased so bloom breathes rather than flickers
+      analyser.getByteTimeDomainData(timeData);
+      let sum = 0;
+      for (let i = 0; i < timeData.length; i++) {
+        const v = (timeData[i] - 128) / 128;
+        sum += v * v;
+      }
+      const rms = Math.min(Math.sqrt(sum / timeData.length) * 3, 1);
+      levels.level += (rms - levels.level) * Math.min(delta * 8, 1);
+
+      // Beat: a jump in bass energy above its running average
+      analyser.getByteFrequencyData(frequencyData);
+      const bassBins = Math.max(1, Math.round(BASS_CUTOFF_HZ / (context.sampleRate / analyser.fftSize)));
+      let bass = 0;
+      for (let i = 0; i < bassBins; i++) bass += frequencyData[i];
+      bass /= bassBins * 255;
+
+      const now = context.currentTime;
+      if (bass > BEAT_MIN_ENERGY && bass > bassAverage * BEAT_RATIO && now - lastBeatAt > BEAT_MIN_GAP) {
+        levels.beat = 1;
+        lastBeatAt = now;
+      } else {
+        levels.beat *= decay;
+      }
+      bassAverage += (bass - bassAverage) * Math.min(delta * 2, 1);
+    },
+
+    dispose: () => {
+      stopMusic();
+      context?.close().catch(() => {});
+      context = null;
+    }
+  };
+};
@@ -0,0 +1,121 @@
+// IndexedDB-backed storage for uploaded photos, so memories survive a reload.
+// Only the raw image blobs are persisted; object URLs are created on demand by the caller.
+
+const DB_NAME = 'grand-luxury-tree';
+const DB_VERSION = 1;
+const STORE_NAME = 'photos';
+
+export interface StoredPhoto {
+  id: string;
+  blob: Blob;
+  name: string;
+  caption: string;
+  order: number;
+  addedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a later call to retry if opening failed (e.g. private browsing)
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+// Wraps a readwrite/readonly transaction and resolves once it has fully committed
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode);
+    const request = work(tx.objectStore(STORE_NAME));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const createId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+export const loadPhotos = async (): Promise<StoredPhoto[]> => {
+  const photos = await runTransaction<StoredPhoto[]>('readonly', (store) => store.getAll());
+  // Records saved before ordering existed fall back to upload time
+  return (photos ?? [])
+    .map(photo => ({ ...photo, caption: photo.caption ?? '', order: photo.order ?? photo.addedAt }))
+    .sort((a, b) => a.order - b.order);
+};
+
+// Appends new photos after the ones already stored
+export const addPhotos = async (
+  files: File[], 
+  startOrder: number, 
+  captions: string[] = []
+): Promise<StoredPhoto[]> => {
+  const now = Date.now();
+  const photos: StoredPhoto[] = files.map((file, i) => ({
+    id: createId(),
+    blob: file,
+    name: file.name,
+    caption: captions[i] ?? '',
+    order: startOrder + i,
+    addedAt: now + i
+  }));
+
+  await runTransaction('readwrite', (store) => {
+    photos.forEach(photo => store.put(photo));
+  });
+  return photos;
+};
+
+export const removePhoto = async (id: string): Promise<void> => {
+  await runTransaction('readwrite', (store) => { store.delete(id); });
+};
+
+// Rewrites the order field of every stored photo to match the given id sequence
+export const savePhotoOrder = async (ids: string[]): Promise<void> => {
+  await runTransaction('readwrite', (store) => {
+    ids.forEach((id, order) => {
+      const request = store.get(id);
+      request.onsuccess = () => {
+        if (request.result) store.put({ ...request.result, order });
+      };
+    });
+  });
+};
+
+export const updatePhotoCaption = async (id: string, caption: string): Promise<void> => {
+  await runTransaction('readwrite', (store) => {
+    const request = store.get(id);
+    request.onsuccess = () => {
+      if (request.result) store.put({ ...request.result, caption });
+    };
+  });
+};
+
+export const clearPhotos = async (): Promise<void> => {
+  await runTransaction('readwrite', (store) => { store.clear(); });
+};
@@ -0,0 +1,27 @@
+// Registers public/sw.js so the experience can be installed as a PWA and run without a network.
+// Skipped during development: a cache-first worker would fight Vite's hot module reloading.
+
+export const isServiceWorkerSupported = () =>
+  typeof navigator !== 'undefined' && 'serviceWorker' in navigator && window.isSecureContext;
+
+// Everything the page fetched before the worker was in control (bundles, fonts, CDN modules)
+const collectLoadedUrls = () =>
+  performance
+    .getEntriesByType('resource')
+    .map(entry => entry.name)
+    .filter(url => url.startsWith('http'));
+
+export const registerServiceWorker = () => {
+  if (process.env.NODE_ENV !== 'production' || !isServiceWorkerSupported()) return;
+
+  window.addEventListener('load', async () => {
+    try {
+      // A new build id changes the worker's URL, which installs it with a fresh cache
+      await navigator.serviceWorker.register(`./sw.js?build=${process.env.BUILD_ID ?? 'dev'}`);
+      const registration = await navigator.serviceWorker.ready;
+      registration.active?.postMessage({ type: 'CACHE_URLS', urls: [window.location.href, ...collectLoadedUrls()] });
+    } catch (err) {
+      console.warn('Service worker registration failed:', err);
+    }
+  });
+};
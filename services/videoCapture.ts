@@ -0,0 +1,120 @@
+// MediaRecorder-based capture of the WebGL canvas, optionally mixed with a user-supplied audio track.
+// The canvas already holds the post-processed frame, so bloom and vignette end up in the video.
+
+export interface CaptureOptions {
+  duration: number; // Seconds
+  fps: number;
+  audio?: File | null;
+  onProgress?: (elapsed: number) => void;
+  signal?: AbortSignal;
+}
+
+// Best codec first; Safari and older Chromium fall back to whatever WebM they can produce
+const MIME_CANDIDATES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm'
+];
+
+const VIDEO_BITS_PER_SECOND = 12_000_000;
+
+export const isVideoCaptureSupported = () =>
+  typeof MediaRecorder !== 'undefined' &&
+  typeof HTMLCanvasElement !== 'undefined' &&
+  'captureStream' in HTMLCanvasElement.prototype;
+
+const pickMimeType = () => MIME_CANDIDATES.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+
+// Plays the audio file through a MediaStream so it can be recorded alongside the canvas.
+// The track is also routed to the speakers so the user hears what is being captured.
+const createAudioSource = async (file: File) => {
+  const context = new AudioContext();
+  const url = URL.createObjectURL(file);
+  const element = new Audio(url);
+  const dispose = () => {
+    element.pause();
+    URL.revokeObjectURL(url);
+    context.close().catch(() => {});
+  };
+
+  // Undecodable files and blocked autoplay reject here; nothing may outlive the failed attempt
+  try {
+    const source = context.createMediaElementSource(element);
+    const destination = context.createMediaStreamDestination();
+    source.connect(destination);
+    source.connect(context.destination);
+
+    await context.resume();
+    await element.play();
+    return { tracks: destination.stream.getAudioTracks(), dispose };
+  } catch (err) {
+    dispose();
+    throw err;
+  }
+};
+
+// Records the canvas for a fixed duration and resolves with the finished WebM.
+// Aborting through `signal` stops early and still resolves with what was captured.
+export const captureCanvas = async (canvas: HTMLCanvasElement, options: CaptureOptions): Promise<Blob> => {
+  if (!isVideoCaptureSupported()) {
+    throw new Error('Video capture is not supported in this browser');
+  }
+
+  const stream = canvas.captureStream(options.fps);
+  const mimeType = pickMimeType();
+  let audio: Awaited<ReturnType<typeof createAudioSource>> | null = null;
+  let recorder: MediaRecorder;
+  try {
+    audio = options.audio ? await createAudioSource(options.audio) : null;
+    audio?.tracks.forEach(track => stream.addTrack(track));
+    recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITS_PER_SECOND });
+  } catch (err) {
+    // Release the capture tracks (and the audio, if it got that far) when setup fails
+    stream.getTracks().forEach(track => track.stop());
+    audio?.dispose();
+    throw err;
+  }
+  const chunks: Blob[] = [];
+
+  return new Promise((resolve, reject) => {
+    let progressTimer: number;
+    const startedAt = performance.now();
+
+    const cleanup = () => {
+      window.clearInterval(progressTimer);
+      options.signal?.removeEventListener('abort', stop);
+      stream.getTracks().forEach(track => track.stop());
+      audio?.dispose();
+    };
+
+    const stop = () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+    };
+
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+      cleanup();
+      resolve(new Blob(chunks, { type: mimeType || 'video/webm' }));
+    };
+    recorder.onerror = () => {
+      cleanup();
+      reject(new Error('Video recording failed'));
+    };
+
+    options.signal?.addEventListener('abort', stop);
+    progressTimer = window.setInterval(() => {
+      const elapsed = (performance.now() - startedAt) / 1000;
+      options.onProgress?.(Math.min(elapsed, options.duration));
+      if (elapsed >= options.duration) stop();
+    }, 100);
+
+    try {
+      recorder.start(1000);
+    } catch (err) {
+      cleanup();
+      reject(err);
+    }
+  });
+};
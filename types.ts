@@ -3,7 +3,41 @@ export enum TreeState {
   FORMED = 'FORMED'
 }
 
-export const THEME = {
+export enum QualityTier {
+  LOW = 'LOW',
+  MEDIUM = 'MEDIUM',
+  HIGH = 'HIGH',
+  ULTRA = 'ULTRA'
+}
+
+// AUTO lets the frame-time monitor pick the tier; any tier value pins it manually
+export type QualityMode = 'AUTO' | QualityTier;
+
+export interface QualitySettings {
+  particleScale: number; // Multiplier applied to foliage and dust counts
+  dpr: [number, number];
+  bloomHeight: number; // Bloom render target height in px
+  dustSize: number;
+  noise: boolean;
+  reflectionResolution: number; // Render target size for the marble floor's reflection
+  floorPasses: boolean; // Floor reflections and contact shadows each re-render the whole scene every frame
+}
+
+export interface UserPhoto {
+  id: string;
+  url: string;
+  caption: string;
+}
+
+export interface ThemePalette {
+  emerald: string;
+  gold: string;
+  goldHighlight: string;
+  red: string;
+  warmWhite: string;
+}
+
+export const THEME: ThemePalette = {
   emerald: '#004225',
   gold: '#D4AF37',
   goldHighlight: '#FFD700',
@@ -17,5 +51,180 @@ export const CONSTANTS = {
   DUST_COUNT: 500,
   TREE_HEIGHT: 14,
   TREE_RADIUS: 5,
-  PHOTO_COUNT: 30
-};
\ No newline at end of file
+  PHOTO_COUNT: 30,
+  LIGHT_COUNT: 360,
+  SNOW_COUNT: 3000
+};
+
+export interface SceneCounts {
+  foliage: number;
+  ornaments: number;
+  dust: number;
+  photos: number;
+  lights: number; // Fairy-light bulbs, shared across all strings
+}
+
+// Text the particles spell out when the "text" formation is active
+export interface SceneText {
+  content: string;
+  font: string; // CSS font-family list
+}
+
+// Who the tree is for and what it says; every visible line of text comes from here
+export interface Greeting {
+  sender: string;
+  recipient: string;
+  title: string; // Large header line
+  subtitle: string;
+  message: string; // Revealed once the tree forms; may span several lines
+  signature: string;
+  footer: string;
+}
+
+// Categories reported by the MediaPipe gesture recognizer (besides 'None')
+export type GestureName =
+  | 'Open_Palm'
+  | 'Closed_Fist'
+  | 'Pointing_Up'
+  | 'Thumb_Up'
+  | 'Thumb_Down'
+  | 'Victory'
+  | 'ILoveYou';
+
+export type GestureAction =
+  | 'none'
+  | 'scatter'
+  | 'assemble'
+  | 'toggleState'
+  | 'nextShape'
+  | 'previousShape'
+  | 'nextPhoto'
+  | 'previousPhoto'
+  | 'closePhoto'
+  | 'toggleSlideshow'
+  | 'nextTheme'
+  | 'screenshot'
+  | 'toggleMusic';
+
+export interface GestureBinding {
+  action: GestureAction;
+  threshold: number; // Minimum recognizer score (0-1) before the action fires
+}
+
+export type GestureBindings = Record<GestureName, GestureBinding>;
+
+// Measured by the calibration flow; lengths are in normalized camera-image units
+export interface GestureCalibration {
+  handSize: number; // Wrist to middle-finger knuckle
+  sweepRange: number; // Horizontal distance covered by a comfortable side-to-side sweep
+  sweepSpeed: number; // Typical hand speed during that sweep, per second
+  confidence: number; // Mean recognizer score for a steady open palm in the user's lighting
+}
+
+// How long and how confidently a gesture must be held before it fires
+export interface GestureTuning {
+  holdFrames: number;
+  holdMs: number;
+  cooldownMs: number; // Minimum gap between two fired actions
+  detectionConfidence: number; // Passed to the hand detector and tracker
+  dwellMs: number; // Hovering the hand cursor this long selects a photo frame; 0 turns dwell-to-select off
+  calibration: GestureCalibration | null;
+}
+
+// One gesture recognizer result, as saved in a hand-tracking recording
+export interface HandFrame {
+  time: number; // Milliseconds from the start of the recording
+  gestures: { categoryName: string; score: number }[][]; // Per hand, best match first
+  landmarks: { x: number; y: number; z: number }[][]; // Per hand, the 21 normalized hand landmarks
+}
+
+// Recognizer output captured from a live camera, replayable without one
+export interface HandRecording {
+  name: string;
+  recordedAt: string; // ISO date
+  duration: number; // Milliseconds
+  frames: HandFrame[];
+}
+
+// Everything needed to reproduce a designed tree; serialized into share links
+export interface SceneConfig {
+  initialState: TreeState;
+  theme: ThemePalette;
+  counts: SceneCounts;
+  greeting: Greeting;
+  seed: number;
+  formation: string; // Id of the shape the particles assemble into
+  text?: SceneText;
+  lights: FairyLights;
+  winter: WinterScene;
+}
+
+// Animation programs the fairy-light strings can run
+export type LightPattern = 'steady' | 'twinkle' | 'chase' | 'rainbow' | 'breathe';
+
+// Bulb colour sets; 'theme' follows the active theme's gold and red
+export type LightColors = 'warmWhite' | 'classic' | 'icy' | 'theme';
+
+export interface FairyLights {
+  pattern: LightPattern;
+  colors: LightColors;
+}
+
+// What the tree stands on; 'none' leaves it floating in the starfield
+export type WinterGround = 'none' | 'snow' | 'marble';
+
+export interface WinterScene {
+  snowfall: boolean;
+  ground: WinterGround;
+  wind: number; // 0-1
+}
+
+// Scene adjustments while a poster is being rendered at print resolution
+export interface PosterMode {
+  pointScale: number; // Pixel-sized particles are scaled up with the render so they keep their look
+  transparent: boolean; // Drops the starfield and screen-space grading so only the tree is opaque
+}
+
+export interface CameraShot {
+  position: [number, number, number];
+  fov: number;
+}
+
+// One step of a choreographed show. Impulses (spin) fire once; the rest set persistent state.
+export type ShowAction =
+  | { type: 'state'; state: TreeState }
+  | { type: 'spin'; velocity: number }
+  | { type: 'grab'; active: boolean; fling?: boolean } // A recorded drag: grabbed, turned by rotate steps, released
+  | { type: 'rotate'; deltaY: number; deltaX: number }
+  | { type: 'attract'; point: { x: number; y: number } | null } // Where the dust gathers, in NDC; null lets it settle
+  | { type: 'focus'; index: number | null }
+  | { type: 'theme'; palette: ThemePalette }
+  | { type: 'formation'; id: string }
+  | { type: 'camera'; shot: CameraShot };
+
+export interface ShowKeyframe {
+  time: number; // Seconds from the start of the show
+  action: ShowAction;
+}
+
+export interface ShowScript {
+  name: string;
+  duration: number; // Seconds; at least the time of the last keyframe
+  keyframes: ShowKeyframe[];
+}
+
+// Loudness and beat of the background music, sampled once per rendered frame
+export interface AudioLevels {
+  level: number; // 0-1, smoothed loudness
+  beat: number; // Jumps to 1 on a detected beat and decays back towards 0
+}
+
+export type SoundEffect = 'assemble' | 'scatter' | 'focus' | 'spin';
+
+// Sound preferences, kept on this device
+export interface AudioSettings {
+  volume: number; // 0-1, applied to music and effects alike
+  muted: boolean;
+  effects: boolean; // Transition and interaction sounds
+  trackId: string; // A built-in track, 'none', or 'upload' for a file chosen this session
+}
@@ -0,0 +1,117 @@
+import { AudioSettings } from '../types';
+
+// Built-in background music is synthesized live from these scores, so it needs no audio files
+// and works offline. Times and durations are in beats.
+
+export type SynthVoice = 'musicBox' | 'bells' | 'bass';
+
+export interface SynthNote {
+  beat: number;
+  midi: number;
+  beats: number;
+  voice: SynthVoice;
+}
+
+export interface SynthScore {
+  id: string;
+  name: string;
+  bpm: number;
+  lengthBeats: number; // The score loops after this many beats
+  notes: SynthNote[];
+}
+
+const NOTE_OFFSETS: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+// "E4" → 64, "F#3" → 54
+export const noteToMidi = (note: string) => {
+  const match = /^([A-G])(#|b)?(-?\d)$/.exec(note);
+  if (!match) throw new Error(`Invalid note "${note}"`);
+  const accidental = match[2] === '#' ? 1 : match[2] === 'b' ? -1 : 0;
+  return 12 * (Number(match[3]) + 1) + NOTE_OFFSETS[match[1]] + accidental;
+};
+
+export const midiToFrequency = (midi: number) => 440 * Math.pow(2, (midi - 69) / 12);
+
+// A melody line written as "E4:1 E4:1 E4:2 R:1 ...", where R is a rest
+const line = (text: string, voice: SynthVoice, startBeat = 0): SynthNote[] => {
+  const notes: SynthNote[] = [];
+  let beat = startBeat;
+  text.trim().split(/\s+/).forEach(token => {
+    const [note, length] = token.split(':');
+    const beats = Number(length);
+    if (note !== 'R') notes.push({ beat, midi: noteToMidi(note), beats, voice });
+    beat += beats;
+  });
+  return notes;
+};
+
+// Jingle Bells (traditional) chorus on a music box, with a plucked bass on each bar's root
+const JINGLE_BELLS: SynthScore = {
+  id: 'jingle-bells',
+  name: 'Jingle Bells (Music Box)',
+  bpm: 112,
+  lengthBeats: 64,
+  notes: [
+    ...line(`
+      E5:1 E5:1 E5:2  E5:1 E5:1 E5:2  E5:1 G5:1 C5:1.5 D5:0.5  E5:4
+      F5:1 F5:1 F5:1.5 F5:0.5  F5:1 E5:1 E5:1 E5:0.5 E5:0.5  E5:1 D5:1 D5:1 E5:1  D5:2 G5:2
+      E5:1 E5:1 E5:2  E5:1 E5:1 E5:2  E5:1 G5:1 C5:1.5 D5:0.5  E5:4
+      F5:1 F5:1 F5:1.5 F5:0.5  F5:1 E5:1 E5:1 E5:0.5 E5:0.5  G5:1 G5:1 F5:1 D5:1  C5:4
+    `, 'musicBox'),
+    ...line(`
+      C3:2 G2:2  C3:2 G2:2  C3:2 G2:2  C3:2 G2:2
+      F2:2 C3:2  C3:2 G2:2  D3:2 A2:2  G2:2 D3:2
+      C3:2 G2:2  C3:2 G2:2  C3:2 G2:2  C3:2 G2:2
+      F2:2 C3:2  C3:2 G2:2  G2:2 G2:2  C3:2 C3:2
+    `, 'bass')
+  ]
+};
+
+// Slow, open arpeggios over Cmaj7 – Am7 – Fmaj7 – G, for a quieter lobby
+const arpeggio = (chord: string[], startBeat: number) =>
+  line([...chord, ...chord.slice(1, -1).reverse()].map(note => `${note}:1`).join(' '), 'bells', startBeat);
+
+const SILENT_SNOW: SynthScore = {
+  id: 'silent-snow',
+  name: 'Silent Snow (Bells)',
+  bpm: 72,
+  lengthBeats: 32,
+  notes: [
+    ...arpeggio(['C4', 'G4', 'B4', 'E5', 'G5'], 0),
+    ...arpeggio(['A3', 'E4', 'G4', 'C5', 'E5'], 8),
+    ...arpeggio(['F3', 'C4', 'E4', 'A4', 'C5'], 16),
+    ...arpeggio(['G3', 'D4', 'G4', 'B4', 'D5'], 24),
+    ...line('C3:8 A2:8 F2:8 G2:8', 'bass')
+  ]
+};
+
+export const SYNTH_SCORES: SynthScore[] = [JINGLE_BELLS, SILENT_SNOW];
+
+export const NO_TRACK_ID = 'none';
+export const UPLOAD_TRACK_ID = 'upload';
+
+export const findSynthScore = (id: string) => SYNTH_SCORES.find(score => score.id === id);
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  volume: 0.6,
+  muted: false,
+  effects: true,
+  trackId: JINGLE_BELLS.id
+};
+
+// Uploaded files only live for the session, so a stored 'upload' falls back to the default track
+export const normalizeAudioSettings = (input: unknown): AudioSettings => {
+  if (!input || typeof input !== 'object') return DEFAULT_AUDIO_SETTINGS;
+  const raw = input as Record<string, unknown>;
+  const trackId = raw.trackId === NO_TRACK_ID || findSynthScore(String(raw.trackId))
+    ? String(raw.trackId)
+    : DEFAULT_AUDIO_SETTINGS.trackId;
+  return {
+    volume: typeof raw.volume === 'number' && Number.isFinite(raw.volume)
+      ? Math.min(1, Math.max(0, raw.volume))
+      : DEFAULT_AUDIO_SETTINGS.volume,
+    muted: typeof raw.muted === 'boolean' ? raw.muted : DEFAULT_AUDIO_SETTINGS.muted,
+    effects: typeof raw.effects === 'boolean' ? raw.effects : DEFAULT_AUDIO_SETTINGS.effects,
+    trackId
+  };
+};
@@ -0,0 +1,14 @@
+// Saves a generated file through a temporary link, the only way to trigger a download without a server
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser a moment to start the download before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Lower-case, dash-separated name that is safe on every file system
+export const toFileSlug = (name: string) =>
+  name.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'untitled';
@@ -0,0 +1,41 @@
+// Dwell-to-select for pointers that can't click, such as the hand cursor.
+// A target is selected once the pointer has stayed on it for the dwell time. It then stays
+// quiet until the pointer moves to something else, so holding still never re-fires.
+
+// A photo frame index, or null for empty space
+export type DwellTarget = number | null;
+
+export interface DwellTracker {
+  // Feeds the target under the pointer this frame. `armed` is false when selecting it would change
+  // nothing, e.g. it is already focused. Returns progress (0-1) and whether it fired on this frame.
+  update: (target: DwellTarget, armed: boolean, now: number, dwellMs: number) => { progress: number; fired: boolean };
+  reset: () => void;
+}
+
+export const createDwellTracker = (): DwellTracker => {
+  let current: { target: DwellTarget; since: number } | null = null;
+  let fired = false;
+
+  return {
+    update: (target, armed, now, dwellMs) => {
+      if (!current || current.target !== target) {
+        current = { target, since: now };
+        fired = false;
+      }
+      if (!armed || fired || dwellMs <= 0) {
+        // Re-arming later (e.g. the focused photo is closed by other means) starts a fresh dwell
+        current.since = now;
+        return { progress: 0, fired: false };
+      }
+
+      const progress = Math.min((now - current.since) / dwellMs, 1);
+      if (progress < 1) return { progress, fired: false };
+      fired = true;
+      return { progress: 1, fired: true };
+    },
+    reset: () => {
+      current = null;
+      fired = false;
+    }
+  };
+};
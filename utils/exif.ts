@@ -0,0 +1,88 @@
+// Minimal EXIF reader: extracts the capture date from a JPEG without pulling in a full EXIF library.
+
+const TAG_EXIF_IFD_POINTER = 0x8769;
+const TAG_DATE_TIME = 0x0132;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+
+// EXIF lives in the APP1 segment near the start of the file, so a small slice is enough
+const HEADER_BYTES = 128 * 1024;
+
+const readIfdTags = (view: DataView, tiffStart: number, ifdOffset: number, little: boolean) => {
+  const tags = new Map<number, { type: number; count: number; valueOffset: number }>();
+  const start = tiffStart + ifdOffset;
+  if (start + 2 > view.byteLength) return tags;
+
+  const entries = view.getUint16(start, little);
+  for (let i = 0; i < entries; i++) {
+    const entry = start + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    tags.set(view.getUint16(entry, little), {
+      type: view.getUint16(entry + 2, little),
+      count: view.getUint32(entry + 4, little),
+      valueOffset: entry + 8
+    });
+  }
+  return tags;
+};
+
+const readAscii = (view: DataView, offset: number, length: number) => {
+  let text = '';
+  for (let i = 0; i < length && offset + i < view.byteLength; i++) {
+    const code = view.getUint8(offset + i);
+    if (code === 0) break;
+    text += String.fromCharCode(code);
+  }
+  return text;
+};
+
+// EXIF dates look like "2024:12:24 18:30:00" and carry no timezone, so treat them as local time
+const parseExifDate = (value: string): Date | null => {
+  const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(value);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s] = match.map(Number);
+  const date = new Date(y, mo - 1, d, h, mi, s);
+  return isNaN(date.getTime()) || y < 1900 ? null : date;
+};
+
+export const readExifDate = async (file: Blob): Promise<Date | null> => {
+  const buffer = await file.slice(0, HEADER_BYTES).arrayBuffer();
+  const view = new DataView(buffer);
+
+  // Not a JPEG
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xFFD8) return null;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const size = view.getUint16(offset + 2);
+
+    // APP1 segment starting with "Exif\0\0"
+    if (marker === 0xFFE1 && view.getUint32(offset + 4) === 0x45786966) {
+      const tiffStart = offset + 10;
+      const little = view.getUint16(tiffStart) === 0x4949;
+      const ifd0 = readIfdTags(view, tiffStart, view.getUint32(tiffStart + 4, little), little);
+
+      const readDateTag = (tag?: { count: number; valueOffset: number }) => {
+        if (!tag) return null;
+        const valueStart = tiffStart + view.getUint32(tag.valueOffset, little);
+        return parseExifDate(readAscii(view, valueStart, tag.count));
+      };
+
+      const exifPointer = ifd0.get(TAG_EXIF_IFD_POINTER);
+      if (exifPointer) {
+        const exifIfd = readIfdTags(view, tiffStart, view.getUint32(exifPointer.valueOffset, little), little);
+        const original = readDateTag(exifIfd.get(TAG_DATE_TIME_ORIGINAL));
+        if (original) return original;
+      }
+      return readDateTag(ifd0.get(TAG_DATE_TIME));
+    }
+
+    // Start of scan: image data follows, no metadata beyond this point
+    if (marker === 0xFFDA || (marker & 0xFF00) !== 0xFF00) break;
+    offset += 2 + size;
+  }
+  return null;
+};
+
+export const formatCaptionDate = (date: Date) =>
+  date.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
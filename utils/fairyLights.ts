@@ -0,0 +1,87 @@
+import { FairyLights, LightColors, LightPattern, ThemePalette } from '../types';
+
+// One bulb on a fairy-light string, as the pattern programs see it
+export interface Bulb {
+  strand: number;
+  along: number; // 0 at the bottom of its string, 1 at the top
+  phase: number; // Random 0-1, so bulbs running the same program don't move in lockstep
+  colorSlot: number; // Index into the active colour set, wrapped to its length
+}
+
+// Written by a program for one bulb and frame. A hue (0-1) overrides the bulb's own colour.
+export interface BulbSample {
+  brightness: number;
+  hue: number | null;
+}
+
+export type LightProgram = (bulb: Bulb, time: number, out: BulbSample) => void;
+
+const wave = (x: number) => 0.5 + 0.5 * Math.sin(x);
+
+export const LIGHT_PATTERNS: Record<LightPattern, { label: string; program: LightProgram }> = {
+  steady: {
+    label: 'Steady',
+    program: (_, __, out) => {
+      out.brightness = 1;
+      out.hue = null;
+    }
+  },
+  twinkle: {
+    // Mostly lit, each bulb flaring briefly on its own slow cycle
+    label: 'Twinkle',
+    program: (bulb, time, out) => {
+      out.brightness = 0.35 + 0.65 * Math.pow(wave(time * (1.5 + bulb.phase * 2) + bulb.phase * 40), 6);
+      out.hue = null;
+    }
+  },
+  chase: {
+    // Pulses running up every string
+    label: 'Chase',
+    program: (bulb, time, out) => {
+      out.brightness = 0.1 + 0.9 * Math.pow(wave((bulb.along * 24 - time * 3) * Math.PI), 4);
+      out.hue = null;
+    }
+  },
+  rainbow: {
+    // A rainbow rolling along the strings, each string a third of the way round the colour wheel
+    label: 'Rainbow Wave',
+    program: (bulb, time, out) => {
+      out.brightness = 1;
+      const hue = bulb.along * 1.5 + bulb.strand / 3 - time * 0.15;
+      out.hue = hue - Math.floor(hue);
+    }
+  },
+  breathe: {
+    // The whole tree slowly dims and brightens together
+    label: 'Breathe',
+    program: (_, time, out) => {
+      out.brightness = 0.25 + 0.75 * wave(time * 1.2);
+      out.hue = null;
+    }
+  }
+};
+
+export const LIGHT_COLOR_SETS: Record<LightColors, { label: string; colors: (theme: ThemePalette) => string[] }> = {
+  warmWhite: { label: 'Warm White', colors: () => ['#ffd9a0', '#ffe8c2'] },
+  classic: { label: 'Classic', colors: () => ['#ff3030', '#2ee65c', '#3a7bff', '#ffd21a', '#ff7a1a'] },
+  icy: { label: 'Icy', colors: () => ['#bfe9ff', '#ffffff', '#7cc4ff'] },
+  theme: { label: 'Theme', colors: theme => [theme.goldHighlight, theme.gold, theme.red] }
+};
+
+export const LIGHT_PATTERN_IDS = Object.keys(LIGHT_PATTERNS) as LightPattern[];
+export const LIGHT_COLOR_IDS = Object.keys(LIGHT_COLOR_SETS) as LightColors[];
+
+export const DEFAULT_FAIRY_LIGHTS: FairyLights = {
+  pattern: 'twinkle',
+  colors: 'warmWhite'
+};
+
+// Merges untrusted input over the defaults, dropping unknown patterns and colour sets
+export const normalizeFairyLights = (input: unknown, defaults: FairyLights = DEFAULT_FAIRY_LIGHTS): FairyLights => {
+  if (!input || typeof input !== 'object') return { ...defaults };
+  const raw = input as Record<string, unknown>;
+  return {
+    pattern: LIGHT_PATTERN_IDS.includes(raw.pattern as LightPattern) ? raw.pattern as LightPattern : defaults.pattern,
+    colors: LIGHT_COLOR_IDS.includes(raw.colors as LightColors) ? raw.colors as LightColors : defaults.colors
+  };
+};
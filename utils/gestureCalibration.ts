@@ -0,0 +1,115 @@
+import { GestureCalibration, GestureTuning } from '../types';
+
+export const DEFAULT_GESTURE_TUNING: GestureTuning = {
+  holdFrames: 4,
+  holdMs: 200,
+  cooldownMs: 600,
+  detectionConfidence: 0.5,
+  dwellMs: 1200,
+  calibration: null
+};
+
+// Calibration runs in two timed phases: hold an open palm still, then sweep side to side
+export const CALIBRATION_PHASES = [
+  { id: 'palm', prompt: 'Hold an open palm still', durationMs: 2500 },
+  { id: 'sweep', prompt: 'Sweep your hand left and right', durationMs: 3500 }
+] as const;
+
+export type CalibrationPhaseId = typeof CALIBRATION_PHASES[number]['id'];
+
+export interface CalibrationSamples {
+  handSizes: number[];
+  palmScores: number[];
+  sweep: { x: number; time: number }[];
+}
+
+// Values that work for an average adult hand at arm's length in decent light
+const REFERENCE_SWEEP_RANGE = 0.5;
+const REFERENCE_CONFIDENCE = 0.85;
+// A smaller sweep is mostly tracking jitter, and would make every twitch a flick or a fling
+const MIN_SWEEP_RANGE = 0.15;
+const MIN_SWEEP_SPEED = 0.2;
+const MAX_SWEEP_SPEED = 20;
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const percentile = (values: number[], p: number) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+};
+
+// Returns null when too few frames saw a hand, or the hand barely moved, for the numbers to mean anything
+export const summarizeCalibration = (samples: CalibrationSamples): GestureCalibration | null => {
+  if (samples.handSizes.length < 10 || samples.sweep.length < 10) return null;
+
+  const xs = samples.sweep.map(s => s.x);
+  const speeds: number[] = [];
+  for (let i = 1; i < samples.sweep.length; i++) {
+    const dt = (samples.sweep[i].time - samples.sweep[i - 1].time) / 1000;
+    if (dt > 0) speeds.push(Math.abs(samples.sweep[i].x - samples.sweep[i - 1].x) / dt);
+  }
+
+  // Trim the extremes so one tracking glitch doesn't define the range
+  const sweepRange = percentile(xs, 0.95) - percentile(xs, 0.05);
+  if (sweepRange < MIN_SWEEP_RANGE) return null;
+
+  return {
+    handSize: median(samples.handSizes),
+    sweepRange: Math.min(sweepRange, 1),
+    sweepSpeed: Math.min(MAX_SWEEP_SPEED, Math.max(MIN_SWEEP_SPEED, percentile(speeds, 0.8))),
+    confidence: samples.palmScores.reduce((sum, s) => sum + s, 0) / Math.max(samples.palmScores.length, 1)
+  };
+};
+
+// Pinch-drag gain: the user's own comfortable sweep turns the tree once
+export const getDragGain = (calibration: GestureCalibration | null) =>
+  (Math.PI * 2) / Math.max(calibration?.sweepRange ?? REFERENCE_SWEEP_RANGE, MIN_SWEEP_RANGE);
+
+// A sideways flick has to cover half of the user's comfortable sweep to step between photos
+export const getFlickDistance = (calibration: GestureCalibration | null) =>
+  Math.max(calibration?.sweepRange ?? REFERENCE_SWEEP_RANGE, MIN_SWEEP_RANGE) * 0.5;
+
+// Hand movement smaller than this is treated as tracking jitter; scales with how big the hand appears
+export const getMotionDeadzone = (calibration: GestureCalibration | null) =>
+  (calibration?.handSize ?? 0.15) * 0.02;
+
+// In dim light the recognizer scores everything lower, so thresholds are relaxed to match
+export const getThresholdScale = (calibration: GestureCalibration | null) =>
+  calibration ? Math.min(1, Math.max(0.6, calibration.confidence / REFERENCE_CONFIDENCE)) : 1;
+
+export const normalizeGestureTuning = (input: unknown): GestureTuning => {
+  if (!input || typeof input !== 'object') return DEFAULT_GESTURE_TUNING;
+  const raw = input as Record<string, unknown>;
+  const number = (value: unknown, fallback: number, min: number, max: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+  const rawCalibration = raw.calibration && typeof raw.calibration === 'object'
+    ? raw.calibration as Record<string, unknown>
+    : null;
+  const calibration = rawCalibration
+    ? {
+        handSize: number(rawCalibration.handSize, 0.15, 0.01, 1),
+        sweepRange: number(rawCalibration.sweepRange, REFERENCE_SWEEP_RANGE, MIN_SWEEP_RANGE, 1),
+        sweepSpeed: number(rawCalibration.sweepSpeed, 1, MIN_SWEEP_SPEED, MAX_SWEEP_SPEED),
+        confidence: number(rawCalibration.confidence, REFERENCE_CONFIDENCE, 0, 1)
+      }
+    : null;
+
+  return {
+    holdFrames: Math.round(number(raw.holdFrames, DEFAULT_GESTURE_TUNING.holdFrames, 1, 30)),
+    holdMs: number(raw.holdMs, DEFAULT_GESTURE_TUNING.holdMs, 0, 2000),
+    cooldownMs: number(raw.cooldownMs, DEFAULT_GESTURE_TUNING.cooldownMs, 0, 5000),
+    detectionConfidence: number(raw.detectionConfidence, DEFAULT_GESTURE_TUNING.detectionConfidence, 0.1, 0.9),
+    dwellMs: number(raw.dwellMs, DEFAULT_GESTURE_TUNING.dwellMs, 0, 5000),
+    calibration
+  };
+};
+
+// Letting go of a pinch-drag faster than this keeps the tree spinning; slower releases stop it dead
+export const getFlingSpeed = (calibration: GestureCalibration | null) =>
+  Math.max(calibration?.sweepSpeed ?? 1, MIN_SWEEP_SPEED) * 0.5;
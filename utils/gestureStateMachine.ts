@@ -0,0 +1,61 @@
+import { GestureTuning } from '../types';
+
+// Once a gesture is active it stays active while its score is within this margin of the threshold,
+// so a sign hovering right at the threshold doesn't flicker on and off
+const RELEASE_MARGIN = 0.1;
+// Consecutive frames of a different (or weak) gesture needed to release the active one
+const RELEASE_FRAMES = 3;
+
+export interface GestureStateMachine {
+  // Feeds one recognizer frame; returns the gesture name to fire on this frame, if any
+  update: (name: string, score: number, threshold: number, now: number) => string | null;
+  reset: () => void;
+}
+
+// IDLE → CANDIDATE (held for holdFrames and holdMs) → ACTIVE (fired once) → released → IDLE.
+// Firing is also spaced by cooldownMs, whichever gesture it is.
+export const createGestureStateMachine = (getTuning: () => GestureTuning): GestureStateMachine => {
+  let candidate: { name: string; since: number; frames: number } | null = null;
+  let active: string | null = null;
+  let misses = 0;
+  let lastFiredAt = -Infinity;
+
+  return {
+    update: (name, score, threshold, now) => {
+      const tuning = getTuning();
+
+      if (active) {
+        if (name === active && score >= threshold - RELEASE_MARGIN) {
+          misses = 0;
+          return null;
+        }
+        if (++misses < RELEASE_FRAMES) return null;
+        active = null;
+        misses = 0;
+      }
+
+      if (score < threshold) {
+        candidate = null;
+        return null;
+      }
+      if (!candidate || candidate.name !== name) {
+        candidate = { name, since: now, frames: 0 };
+      }
+      candidate.frames++;
+
+      if (candidate.frames < tuning.holdFrames || now - candidate.since < tuning.holdMs) return null;
+      // Still held when the cooldown ends? Then it fires then
+      if (now - lastFiredAt < tuning.cooldownMs) return null;
+
+      active = name;
+      candidate = null;
+      lastFiredAt = now;
+      return name;
+    },
+    reset: () => {
+      candidate = null;
+      active = null;
+      misses = 0;
+    }
+  };
+};
@@ -0,0 +1,83 @@
+import { GestureAction, GestureBinding, GestureBindings, GestureName } from '../types';
+
+export const GESTURE_NAMES: GestureName[] = [
+  'Open_Palm',
+  'Closed_Fist',
+  'Victory',
+  'Thumb_Up',
+  'Thumb_Down',
+  'Pointing_Up',
+  'ILoveYou'
+];
+
+export const GESTURE_LABELS: Record<GestureName, { label: string; icon: string }> = {
+  Open_Palm: { label: 'Open Palm', icon: '✋' },
+  Closed_Fist: { label: 'Fist', icon: '✊' },
+  Victory: { label: 'Victory', icon: '✌️' },
+  Thumb_Up: { label: 'Thumb Up', icon: '👍' },
+  Thumb_Down: { label: 'Thumb Down', icon: '👎' },
+  Pointing_Up: { label: 'Pointing Up', icon: '☝️' },
+  ILoveYou: { label: 'I Love You', icon: '🤟' }
+};
+
+export const GESTURE_ACTION_LABELS: Record<GestureAction, string> = {
+  none: 'Nothing',
+  scatter: 'Scatter',
+  assemble: 'Assemble',
+  toggleState: 'Scatter / Assemble',
+  nextShape: 'Next Shape',
+  previousShape: 'Previous Shape',
+  nextPhoto: 'Next Photo',
+  previousPhoto: 'Previous Photo',
+  closePhoto: 'Close Photo',
+  toggleSlideshow: 'Start / Stop Slideshow',
+  nextTheme: 'Next Theme',
+  screenshot: 'Take Screenshot',
+  toggleMusic: 'Music On / Off'
+};
+
+export const GESTURE_ACTIONS = Object.keys(GESTURE_ACTION_LABELS) as GestureAction[];
+
+export const MIN_GESTURE_THRESHOLD = 0.3;
+export const MAX_GESTURE_THRESHOLD = 0.95;
+
+// Palm and fist keep their original meaning; the rest default to the most asked-for actions
+export const DEFAULT_GESTURE_BINDINGS: GestureBindings = {
+  Open_Palm: { action: 'scatter', threshold: 0.5 },
+  Closed_Fist: { action: 'assemble', threshold: 0.5 },
+  Victory: { action: 'nextShape', threshold: 0.5 },
+  Thumb_Up: { action: 'nextPhoto', threshold: 0.6 },
+  Thumb_Down: { action: 'previousPhoto', threshold: 0.6 },
+  Pointing_Up: { action: 'toggleSlideshow', threshold: 0.65 },
+  ILoveYou: { action: 'nextTheme', threshold: 0.7 }
+};
+
+export const isGestureName = (name: string): name is GestureName =>
+  (GESTURE_NAMES as string[]).includes(name);
+
+const normalizeBinding = (input: unknown, fallback: GestureBinding): GestureBinding => {
+  if (!input || typeof input !== 'object') return fallback;
+  const raw = input as Record<string, unknown>;
+  const action = GESTURE_ACTIONS.includes(raw.action as GestureAction) ? raw.action as GestureAction : fallback.action;
+  const threshold = typeof raw.threshold === 'number' && Number.isFinite(raw.threshold)
+    ? Math.min(MAX_GESTURE_THRESHOLD, Math.max(MIN_GESTURE_THRESHOLD, raw.threshold))
+    : fallback.threshold;
+  return { action, threshold };
+};
+
+// Merges stored bindings over the defaults; gestures missing from older saves keep their default
+export const normalizeGestureBindings = (input: unknown): GestureBindings => {
+  const raw = input && typeof input === 'object' ? input as Record<string, unknown> : {};
+  const bindings = { ...DEFAULT_GESTURE_BINDINGS };
+  GESTURE_NAMES.forEach(name => {
+    bindings[name] = normalizeBinding(raw[name], DEFAULT_GESTURE_BINDINGS[name]);
+  });
+  return bindings;
+};
+
+// "Open Palm to Scatter • Fist to Assemble" for the on-screen help, skipping unbound gestures
+export const describeGestureBindings = (bindings: GestureBindings) =>
+  GESTURE_NAMES
+    .filter(name => bindings[name].action !== 'none')
+    .map(name => `${GESTURE_LABELS[name].label} to ${GESTURE_ACTION_LABELS[bindings[name].action]}`)
+    .join(' • ');
@@ -0,0 +1,74 @@
+import { Greeting } from '../types';
+
+// Per-field length limits; also keeps share links a reasonable size
+const FIELD_LIMITS: Record<keyof Greeting, number> = {
+  sender: 60,
+  recipient: 60,
+  title: 120,
+  subtitle: 120,
+  message: 1000,
+  signature: 120,
+  footer: 120
+};
+
+// Short query parameters for hand-written links, e.g. `?to=Grandma&from=Sam&message=...`
+const URL_PARAMS: Record<string, keyof Greeting> = {
+  to: 'recipient',
+  from: 'sender',
+  title: 'title',
+  subtitle: 'subtitle',
+  message: 'message',
+  signature: 'signature'
+};
+
+export const GREETING_URL_PARAMS = Object.keys(URL_PARAMS);
+
+export const DEFAULT_GREETING: Greeting = {
+  sender: '',
+  recipient: '',
+  title: 'NYT love LDM',
+  subtitle: 'Interactive Christmas Experience',
+  message: '',
+  signature: '',
+  footer: 'v1.2.0 | Grand Luxury Tree'
+};
+
+// Merges untrusted input over the defaults. A bare string is a greeting from an older share link,
+// which only carried the title.
+export const normalizeGreeting = (input: unknown, defaults: Greeting = DEFAULT_GREETING): Greeting => {
+  if (typeof input === 'string') return { ...defaults, title: input.slice(0, FIELD_LIMITS.title) };
+  if (!input || typeof input !== 'object') return { ...defaults };
+  const raw = input as Record<string, unknown>;
+
+  const greeting = { ...defaults };
+  (Object.keys(FIELD_LIMITS) as (keyof Greeting)[]).forEach(key => {
+    const value = raw[key];
+    if (typeof value === 'string') greeting[key] = value.slice(0, FIELD_LIMITS[key]);
+  });
+  return greeting;
+};
+
+export const parseGreetingJson = (json: string) => normalizeGreeting(JSON.parse(json));
+
+export const serializeGreeting = (greeting: Greeting) => JSON.stringify(greeting, null, 2);
+
+// Any greeting fields given as plain query parameters, which override the shared scene's greeting
+export const readGreetingParams = (location: Location = window.location): Partial<Greeting> => {
+  const params = new URLSearchParams(location.search);
+  const fields: Partial<Greeting> = {};
+  Object.entries(URL_PARAMS).forEach(([param, key]) => {
+    const value = params.get(param);
+    if (value !== null) fields[key] = value.slice(0, FIELD_LIMITS[key]);
+  });
+  return fields;
+};
+
+// "Dear Grandma," style opening line, or nothing when the greeting has no recipient
+export const getSalutation = (greeting: Greeting) =>
+  greeting.recipient.trim() ? `Dear ${greeting.recipient.trim()},` : '';
+
+// Signature line, falling back to the sender's name
+export const getSignOff = (greeting: Greeting) => greeting.signature.trim() || greeting.sender.trim();
+
+export const hasGreetingMessage = (greeting: Greeting) =>
+  !!(getSalutation(greeting) || greeting.message.trim() || getSignOff(greeting));
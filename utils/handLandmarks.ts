@@ -0,0 +1,37 @@
+// Geometry helpers over MediaPipe's 21 hand landmarks (normalized image coordinates, unmirrored).
+// Indices: 0 wrist, 4 thumb tip, 8 index tip, 9 middle-finger knuckle.
+
+export interface Landmark {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Pinch hysteresis: fingers must close past ON to grab and open past OFF to let go, so jitter
+// near the boundary doesn't drop the tree mid-drag
+export const PINCH_ON_RATIO = 0.35;
+export const PINCH_OFF_RATIO = 0.5;
+
+const distance = (a: Landmark, b: Landmark) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Centre of the palm in mirrored screen space (0-1), matching what the user sees in the preview
+export const getPalmCenter = (landmarks: Landmark[]) => ({
+  x: 1 - (landmarks[0].x + landmarks[9].x) / 2,
+  y: (landmarks[0].y + landmarks[9].y) / 2
+});
+
+// Point between thumb and index tips, in mirrored screen space
+export const getPinchPoint = (landmarks: Landmark[]) => ({
+  x: 1 - (landmarks[4].x + landmarks[8].x) / 2,
+  y: (landmarks[4].y + landmarks[8].y) / 2
+});
+
+// Thumb-index gap relative to palm length, so the threshold works at any distance from the camera
+export const getPinchRatio = (landmarks: Landmark[]) =>
+  distance(landmarks[4], landmarks[8]) / Math.max(distance(landmarks[0], landmarks[9]), 1e-6);
+
+// Screen (0-1, y down) to normalized device coordinates (-1..1, y up)
+export const toNdc = (point: { x: number; y: number }) => ({
+  x: point.x * 2 - 1,
+  y: -(point.y * 2 - 1)
+});
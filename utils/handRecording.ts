@@ -0,0 +1,106 @@
+import { HandFrame, HandRecording } from '../types';
+
+// ?handReplay=<url of a recording> starts the app replaying that session instead of using the camera
+export const HAND_REPLAY_PARAM = 'handReplay';
+
+export const readHandReplayParam = (search: string = window.location.search) =>
+  new URLSearchParams(search).get(HAND_REPLAY_PARAM)?.trim() || null;
+
+// Four decimals is well below the recognizer's own jitter and keeps files a fraction of the size
+const round = (value: number) => Math.round(value * 1e4) / 1e4;
+
+const LANDMARKS_PER_HAND = 21;
+
+// Copies the parts of a recognizer result the gesture pipeline reads, so the live result can be released
+export const toHandFrame = (
+  result: Pick<HandFrame, 'gestures' | 'landmarks'>,
+  time: number
+): HandFrame => ({
+  time,
+  gestures: result.gestures.map(hand => hand.map(({ categoryName, score }) => ({ categoryName, score }))),
+  landmarks: result.landmarks.map(hand => hand.map(({ x, y, z }) => ({ x, y, z })))
+});
+
+// Per-frame output of a session, in recording order
+export const createHandRecording = (frames: HandFrame[], name = 'Hand Session'): HandRecording => ({
+  name,
+  recordedAt: new Date().toISOString(),
+  duration: frames.length > 0 ? frames[frames.length - 1].time : 0,
+  frames
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object';
+
+const isPoint = (point: unknown) =>
+  isRecord(point) && typeof point.x === 'number' && typeof point.y === 'number' && typeof point.z === 'number';
+
+const isCategory = (category: unknown) =>
+  isRecord(category) && typeof category.categoryName === 'string' && typeof category.score === 'number';
+
+// Every hand needs its 21 landmarks and at least one gesture category, and both lists must
+// describe the same hands: the gesture pipeline reads gestures[i][0] alongside landmarks[i]
+const parseFrame = (entry: unknown): HandFrame | null => {
+  if (!isRecord(entry) || typeof entry.time !== 'number' || entry.time < 0) return null;
+  const { gestures, landmarks } = entry;
+  if (!Array.isArray(gestures) || !Array.isArray(landmarks) || gestures.length !== landmarks.length) return null;
+  const landmarksOk = landmarks.every(
+    (hand: unknown) => Array.isArray(hand) && hand.length === LANDMARKS_PER_HAND && hand.every(isPoint)
+  );
+  const gesturesOk = gestures.every(
+    (hand: unknown) => Array.isArray(hand) && hand.length > 0 && hand.every(isCategory)
+  );
+  return landmarksOk && gesturesOk ? toHandFrame({ gestures, landmarks }, entry.time) : null;
+};
+
+// Validates a recording loaded from JSON. Malformed frames are dropped with a warning
+// rather than failing the whole session, but a session with no valid frame left is an error.
+export const parseHandRecording = (input: unknown): HandRecording => {
+  if (!isRecord(input) || !Array.isArray(input.frames)) {
+    throw new Error('A hand recording needs a "frames" array');
+  }
+
+  const frames: HandFrame[] = [];
+  input.frames.forEach((entry: unknown, i: number) => {
+    const frame = parseFrame(entry);
+    if (frame) frames.push(frame);
+    else console.warn(`Skipping invalid hand frame #${i}`, entry);
+  });
+  if (frames.length === 0) throw new Error('The hand recording has no valid frames');
+  frames.sort((a, b) => a.time - b.time);
+
+  return {
+    name: typeof input.name === 'string' ? input.name : 'Hand Session',
+    recordedAt: typeof input.recordedAt === 'string' ? input.recordedAt : '',
+    duration: frames[frames.length - 1].time,
+    frames
+  };
+};
+
+export const serializeHandRecording = (recording: HandRecording) => JSON.stringify({
+  name: recording.name,
+  recordedAt: recording.recordedAt,
+  duration: recording.duration,
+  frames: recording.frames.map(frame => ({
+    time: Math.round(frame.time),
+    gestures: frame.gestures.map(hand => hand.map(({ categoryName, score }) => ({ categoryName, score: round(score) }))),
+    landmarks: frame.landmarks.map(hand => hand.map(({ x, y, z }) => ({ x: round(x), y: round(y), z: round(z) })))
+  }))
+});
+
+// Index of the last frame at or before `time`, or -1 before the first one
+export const getHandFrameIndexAt = (recording: HandRecording, time: number) => {
+  let low = 0;
+  let high = recording.frames.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (recording.frames[mid].time <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+};
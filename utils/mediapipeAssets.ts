@@ -0,0 +1,66 @@
+// Where the gesture recognizer's wasm runtime and model are loaded from.
+// By default they are served by the app itself (see scripts/fetch-mediapipe-assets.mjs) so venues
+// without internet still get hand tracking; the public CDNs are kept as a fallback for dev setups
+// that never fetched the local copies.
+
+export interface MediapipeAssetSource {
+  label: string;
+  wasmPath: string;
+  modelPath: string;
+}
+
+export const MEDIAPIPE_MODEL_FILE = 'gesture_recognizer.task';
+
+// Relative to the page so the app keeps working when deployed under a sub-path
+export const DEFAULT_MEDIAPIPE_ASSET_BASE = './mediapipe/';
+
+export const CDN_MEDIAPIPE_ASSETS: MediapipeAssetSource = {
+  label: 'cdn',
+  wasmPath: 'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.8/wasm',
+  modelPath: `https://storage.googleapis.com/mediapipe-models/gesture_recognizer/gesture_recognizer/float16/1/${MEDIAPIPE_MODEL_FILE}`
+};
+
+// Query param overriding the asset base for a single session, e.g. ?assets=./venue-mp/
+// The special value "cdn" skips the local copies entirely.
+export const ASSET_BASE_PARAM = 'assets';
+
+const withTrailingSlash = (base: string) => (base.endsWith('/') ? base : `${base}/`);
+
+// The wasm loader is injected as a <script>, so a link must never point it at another origin.
+// Only "cdn" and bases on this page's own origin are accepted from the URL.
+export const isAllowedUrlAssetBase = (base: string, href: string = window.location.href) => {
+  if (base === 'cdn') return true;
+  try {
+    return new URL(base, href).origin === new URL(href).origin;
+  } catch {
+    return false;
+  }
+};
+
+export const getMediapipeAssetBase = (location: Pick<Location, 'search' | 'href'> = window.location) => {
+  const fromUrl = new URLSearchParams(location.search).get(ASSET_BASE_PARAM)?.trim();
+  if (fromUrl) {
+    if (isAllowedUrlAssetBase(fromUrl, location.href)) return fromUrl;
+    console.warn(`Ignoring ?${ASSET_BASE_PARAM}="${fromUrl}": only "cdn" or same-origin paths are allowed`);
+  }
+  // Set at build time through MEDIAPIPE_ASSET_BASE in .env.local, which may point anywhere
+  const fromEnv = process.env.MEDIAPIPE_ASSET_BASE?.trim();
+  return fromEnv || DEFAULT_MEDIAPIPE_ASSET_BASE;
+};
+
+export const toMediapipeAssetSource = (base: string): MediapipeAssetSource => {
+  if (base === 'cdn') return CDN_MEDIAPIPE_ASSETS;
+  const root = withTrailingSlash(base);
+  return {
+    label: root,
+    // FilesetResolver appends the wasm file names itself and does not want a trailing slash
+    wasmPath: `${root}wasm`,
+    modelPath: `${root}${MEDIAPIPE_MODEL_FILE}`
+  };
+};
+
+// Candidate sources in the order they should be tried
+export const resolveMediapipeAssetSources = (location?: Pick<Location, 'search' | 'href'>): MediapipeAssetSource[] => {
+  const primary = toMediapipeAssetSource(getMediapipeAssetBase(location));
+  return primary === CDN_MEDIAPIPE_ASSETS ? [primary] : [primary, CDN_MEDIAPIPE_ASSETS];
+};
@@ -0,0 +1,107 @@
+export interface PosterSize {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+}
+
+// Print sizes are at 300 dpi, portrait, since the tree is taller than it is wide
+export const POSTER_SIZES: PosterSize[] = [
+  { id: 'hd', label: 'Full HD (1920 × 1080)', width: 1920, height: 1080 },
+  { id: '4k', label: '4K (3840 × 2160)', width: 3840, height: 2160 },
+  { id: 'square', label: 'Square (2048 × 2048)', width: 2048, height: 2048 },
+  { id: 'a4', label: 'A4 @ 300 dpi (2480 × 3508)', width: 2480, height: 3508 },
+  { id: 'a3', label: 'A3 @ 300 dpi (3508 × 4961)', width: 3508, height: 4961 }
+];
+
+export const POSTER_SUPERSAMPLING = [1, 2, 3];
+
+// Bloom and the composer's float buffers scale with the render, so cap the pixel count to keep
+// big supersampled prints inside GPU memory
+const MAX_RENDER_PIXELS = 40_000_000;
+
+export interface PosterOptions {
+  size: PosterSize;
+  supersample: number;
+  includeTitle: boolean;
+  transparent: boolean;
+}
+
+export interface PosterTitle {
+  title: string;
+  subtitle: string;
+  color: string;
+}
+
+// Largest render scale (up to the requested supersampling) that both the GPU and the pixel budget allow
+export const getPosterRenderScale = (size: PosterSize, supersample: number, maxDimension: number) => Math.min(
+  supersample,
+  maxDimension / size.width,
+  maxDimension / size.height,
+  Math.sqrt(MAX_RENDER_PIXELS / (size.width * size.height))
+);
+
+// Downsample by repeated halving; a single large drawImage step aliases like nearest-neighbour
+const downsample = (source: HTMLCanvasElement, width: number, height: number) => {
+  let current = source;
+  while (current.width / 2 >= width && current.height / 2 >= height) {
+    const half = document.createElement('canvas');
+    half.width = Math.round(current.width / 2);
+    half.height = Math.round(current.height / 2);
+    const ctx = half.getContext('2d')!;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(current, 0, 0, half.width, half.height);
+    current = half;
+  }
+  return current;
+};
+
+// Mirrors the UIOverlay header: gold serif title with a light subtitle underneath
+const drawTitle = (ctx: CanvasRenderingContext2D, width: number, height: number, title: PosterTitle) => {
+  const unit = Math.min(width, height) / 100;
+  ctx.save();
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.8)';
+  ctx.shadowBlur = unit;
+  ctx.shadowOffsetY = unit * 0.4;
+
+  ctx.fillStyle = title.color;
+  ctx.font = `700 ${unit * 7}px 'Playfair Display', serif`;
+  ctx.letterSpacing = `${unit * 0.7}px`;
+  ctx.fillText(title.title, width / 2, height * 0.05, width * 0.9);
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+  ctx.font = `300 ${unit * 2.4}px 'Playfair Display', serif`;
+  ctx.letterSpacing = `${unit * 0.5}px`;
+  ctx.fillText(title.subtitle, width / 2, height * 0.05 + unit * 9, width * 0.9);
+  ctx.restore();
+};
+
+// Turns the raw supersampled render into the final poster canvas
+export const composePoster = (
+  render: HTMLCanvasElement,
+  options: PosterOptions,
+  title: PosterTitle | null
+) => {
+  const { width, height } = options.size;
+  const poster = document.createElement('canvas');
+  poster.width = width;
+  poster.height = height;
+  const ctx = poster.getContext('2d')!;
+
+  // The WebGL canvas clears to transparent and the page behind it supplies the black
+  if (!options.transparent) {
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(downsample(render, width, height), 0, 0, width, height);
+
+  if (title) drawTitle(ctx, width, height, title);
+  return poster;
+};
+
+export const canvasToPng = (canvas: HTMLCanvasElement) => new Promise<Blob>((resolve, reject) => {
+  canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode the poster')), 'image/png');
+});
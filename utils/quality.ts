@@ -0,0 +1,35 @@
+import { QualitySettings, QualityTier } from '../types';
+
+export const QUALITY_TIERS: QualityTier[] = [
+  QualityTier.LOW,
+  QualityTier.MEDIUM,
+  QualityTier.HIGH,
+  QualityTier.ULTRA
+];
+
+// HIGH matches the original fixed settings. Lower tiers trade particles for bigger dust
+// so the scene still reads as full.
+export const QUALITY_PRESETS: Record<QualityTier, QualitySettings> = {
+  [QualityTier.LOW]: { particleScale: 0.35, dpr: [0.75, 1], bloomHeight: 180, dustSize: 0.35, noise: false, reflectionResolution: 256, floorPasses: false },
+  [QualityTier.MEDIUM]: { particleScale: 0.65, dpr: [1, 1.5], bloomHeight: 240, dustSize: 0.3, noise: true, reflectionResolution: 512, floorPasses: true },
+  [QualityTier.HIGH]: { particleScale: 1, dpr: [1, 2], bloomHeight: 300, dustSize: 0.25, noise: true, reflectionResolution: 1024, floorPasses: true },
+  [QualityTier.ULTRA]: { particleScale: 1.5, dpr: [1.5, 2.5], bloomHeight: 480, dustSize: 0.22, noise: true, reflectionResolution: 1024, floorPasses: true }
+};
+
+export const QUALITY_LABELS: Record<QualityTier, string> = {
+  [QualityTier.LOW]: 'Low',
+  [QualityTier.MEDIUM]: 'Medium',
+  [QualityTier.HIGH]: 'High',
+  [QualityTier.ULTRA]: 'Ultra'
+};
+
+export const DEFAULT_QUALITY_TIER = QualityTier.HIGH;
+
+// Returns the neighbouring tier, or the same tier when already at the edge
+export const stepQualityTier = (tier: QualityTier, direction: 1 | -1) => {
+  const index = QUALITY_TIERS.indexOf(tier) + direction;
+  return QUALITY_TIERS[Math.max(0, Math.min(QUALITY_TIERS.length - 1, index))];
+};
+
+export const scaleCount = (count: number, settings: QualitySettings) =>
+  Math.max(1, Math.round(count * settings.particleScale));
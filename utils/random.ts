@@ -0,0 +1,45 @@
+// Seeded pseudo-random numbers so a layout can be reproduced from the scene config seed.
+
+export type RandomFn = () => number;
+
+// Each layout generator draws from its own stream, so changing one particle count
+// doesn't reshuffle every other part of the tree
+export const RANDOM_STREAMS = {
+  foliage: 1,
+  ornamentSpheres: 2,
+  ornamentBoxes: 3,
+  photoFrames: 4,
+  dust: 5,
+  foliageTargets: 6,
+  ornamentSphereTargets: 7,
+  ornamentBoxTargets: 8,
+  photoFrameTargets: 9,
+  fairyLights: 10,
+  snow: 11,
+  marble: 12
+} as const;
+
+// FNV-1a, used to give every formation its own deterministic target streams
+export const hashString = (text: string) => {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const createFormationRandom = (seed: number, formationId: string, stream: number) =>
+  createRandom((seed ^ hashString(formationId)) >>> 0, stream);
+
+// mulberry32: tiny, fast and good enough for visual layouts (not for anything security related)
+export const createRandom = (seed: number, stream = 0): RandomFn => {
+  let state = (seed ^ Math.imul(stream + 1, 0x9E3779B9)) >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
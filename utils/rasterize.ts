@@ -0,0 +1,110 @@
+import { RasterMask } from '../formations/raster';
+
+// Resolution of the silhouette masks; plenty for 15k particles while staying cheap to scan
+const MASK_SIZE = 256;
+const ALPHA_THRESHOLD = 128;
+
+export const TEXT_FONTS = [
+  { label: 'Playfair', css: "'Playfair Display', serif" },
+  { label: 'Handwritten', css: "'Caveat', cursive" },
+  { label: 'Lato', css: "'Lato', sans-serif" },
+  { label: 'Impact', css: "Impact, 'Arial Black', sans-serif" },
+  { label: 'Georgia', css: 'Georgia, serif' }
+];
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('2D canvas is not available');
+  return { canvas, context };
+};
+
+const toMask = (context: CanvasRenderingContext2D, width: number, height: number, useLuminance: boolean): RasterMask => {
+  const { data: pixels } = context.getImageData(0, 0, width, height);
+  const data = new Uint8Array(width * height);
+  for (let i = 0; i < data.length; i++) {
+    const alpha = pixels[i * 4 + 3];
+    if (useLuminance) {
+      // Opaque artwork: treat dark ink on a light background as the shape
+      const luminance = 0.299 * pixels[i * 4] + 0.587 * pixels[i * 4 + 1] + 0.114 * pixels[i * 4 + 2];
+      data[i] = alpha >= ALPHA_THRESHOLD && luminance < 128 ? 1 : 0;
+    } else {
+      data[i] = alpha >= ALPHA_THRESHOLD ? 1 : 0;
+    }
+  }
+  return { width, height, data };
+};
+
+// Draws text (one line per "\n") in the chosen CSS font family and returns its silhouette
+export const rasterizeText = async (text: string, fontFamily: string): Promise<RasterMask> => {
+  const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+  const fontSize = 96;
+  const font = `700 ${fontSize}px ${fontFamily}`;
+
+  // Web fonts draw as a fallback face until loaded
+  await document.fonts?.load(font, text).catch(() => undefined);
+
+  const { context: measure } = createCanvas(1, 1);
+  measure.font = font;
+  const textWidth = Math.max(1, ...lines.map(line => measure.measureText(line).width));
+  const lineHeight = fontSize * 1.15;
+  const padding = fontSize * 0.2;
+
+  // Scale the canvas so its longer side is MASK_SIZE
+  const naturalWidth = textWidth + padding * 2;
+  const naturalHeight = lines.length * lineHeight + padding * 2;
+  const scale = MASK_SIZE / Math.max(naturalWidth, naturalHeight);
+  const width = Math.max(1, Math.round(naturalWidth * scale));
+  const height = Math.max(1, Math.round(naturalHeight * scale));
+
+  const { context } = createCanvas(width, height);
+  context.scale(scale, scale);
+  context.font = font;
+  context.fillStyle = '#000';
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  lines.forEach((line, i) => {
+    context.fillText(line, naturalWidth / 2, padding + lineHeight * (i + 0.5));
+  });
+
+  return toMask(context, width, height, false);
+};
+
+const loadImage = (url: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error('Could not decode image'));
+  image.src = url;
+});
+
+// Draws an uploaded PNG/SVG logo and returns its silhouette. Transparent images use
+// their alpha channel; fully opaque ones fall back to dark-on-light luminance.
+export const rasterizeImage = async (file: Blob): Promise<RasterMask> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = await loadImage(url);
+    // SVGs without intrinsic size report 0; give them a square canvas
+    const naturalWidth = image.naturalWidth || MASK_SIZE;
+    const naturalHeight = image.naturalHeight || MASK_SIZE;
+    const scale = MASK_SIZE / Math.max(naturalWidth, naturalHeight);
+    const width = Math.max(1, Math.round(naturalWidth * scale));
+    const height = Math.max(1, Math.round(naturalHeight * scale));
+
+    const { context } = createCanvas(width, height);
+    context.drawImage(image, 0, 0, width, height);
+
+    const { data: pixels } = context.getImageData(0, 0, width, height);
+    let hasTransparency = false;
+    for (let i = 3; i < pixels.length; i += 4) {
+      if (pixels[i] < ALPHA_THRESHOLD) {
+        hasTransparency = true;
+        break;
+      }
+    }
+    return toMask(context, width, height, !hasTransparency);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
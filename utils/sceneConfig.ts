@@ -0,0 +1,136 @@
+import { CONSTANTS, SceneConfig, SceneCounts, THEME, ThemePalette, TreeState } from '../types';
+import { DEFAULT_FORMATION_ID, hasFormation, TEXT_FORMATION_ID } from '../formations';
+import { DEFAULT_GREETING, GREETING_URL_PARAMS, normalizeGreeting, readGreetingParams } from './greeting';
+import { DEFAULT_FAIRY_LIGHTS, normalizeFairyLights } from './fairyLights';
+import { DEFAULT_WINTER_SCENE, normalizeWinterScene } from './winter';
+
+// Key used for the encoded config in both the URL hash and the query string
+const PARAM_KEY = 'scene';
+
+// Upper bounds keep a hand-edited link from freezing the browser
+const COUNT_LIMITS: Record<keyof SceneCounts, [number, number]> = {
+  foliage: [500, 60000],
+  ornaments: [0, 1000],
+  dust: [0, 3000],
+  photos: [0, 60],
+  lights: [0, 2000]
+};
+
+export const createRandomSeed = () => Math.floor(Math.random() * 0xFFFFFFFF) >>> 0;
+
+export const createDefaultSceneConfig = (): SceneConfig => ({
+  initialState: TreeState.CHAOS,
+  theme: { ...THEME },
+  counts: {
+    foliage: CONSTANTS.FOLIAGE_COUNT,
+    ornaments: CONSTANTS.ORNAMENT_COUNT,
+    dust: CONSTANTS.DUST_COUNT,
+    photos: CONSTANTS.PHOTO_COUNT,
+    lights: CONSTANTS.LIGHT_COUNT
+  },
+  greeting: { ...DEFAULT_GREETING },
+  seed: createRandomSeed(),
+  formation: DEFAULT_FORMATION_ID,
+  lights: { ...DEFAULT_FAIRY_LIGHTS },
+  winter: { ...DEFAULT_WINTER_SCENE }
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+
+const isHexColor = (value: unknown): value is string =>
+  typeof value === 'string' && /^#[0-9a-fA-F]{6}$/.test(value);
+
+const clampCount = (key: keyof SceneCounts, value: unknown, fallback: number) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return fallback;
+  const [min, max] = COUNT_LIMITS[key];
+  return Math.round(Math.min(max, Math.max(min, value)));
+};
+
+// Merges untrusted input over the defaults, dropping anything malformed
+export const normalizeSceneConfig = (input: unknown, defaults = createDefaultSceneConfig()): SceneConfig => {
+  if (!isRecord(input)) return defaults;
+  const raw = input;
+
+  const theme = { ...defaults.theme };
+  const rawTheme = raw.theme;
+  if (isRecord(rawTheme)) {
+    (Object.keys(theme) as (keyof ThemePalette)[]).forEach(key => {
+      const value = rawTheme[key];
+      if (isHexColor(value)) theme[key] = value;
+    });
+  }
+
+  const counts = { ...defaults.counts };
+  const rawCounts = raw.counts;
+  if (isRecord(rawCounts)) {
+    (Object.keys(counts) as (keyof SceneCounts)[]).forEach(key => {
+      counts[key] = clampCount(key, rawCounts[key], defaults.counts[key]);
+    });
+  }
+
+  // The text formation is registered asynchronously after boot, so accept it whenever text is supplied
+  const rawText = raw.text;
+  const text = isRecord(rawText) && typeof rawText.content === 'string' && typeof rawText.font === 'string'
+    ? { content: rawText.content.slice(0, 80), font: rawText.font.slice(0, 80) }
+    : undefined;
+  const isKnownFormation = (id: unknown): id is string =>
+    typeof id === 'string' && (hasFormation(id) || (id === TEXT_FORMATION_ID && !!text));
+  const initialState = Object.values(TreeState).find(state => state === raw.initialState);
+
+  return {
+    initialState: initialState ?? defaults.initialState,
+    theme,
+    counts,
+    greeting: normalizeGreeting(raw.greeting, defaults.greeting),
+    seed: typeof raw.seed === 'number' && Number.isFinite(raw.seed) ? raw.seed >>> 0 : defaults.seed,
+    formation: isKnownFormation(raw.formation) ? raw.formation : defaults.formation,
+    text,
+    lights: normalizeFairyLights(raw.lights, defaults.lights),
+    winter: normalizeWinterScene(raw.winter, defaults.winter)
+  };
+};
+
+// base64url over UTF-8, so greetings with emoji or accents survive the round trip
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
+export const encodeSceneConfig = (config: SceneConfig) => toBase64Url(JSON.stringify(config));
+
+export const decodeSceneConfig = (encoded: string): SceneConfig | null => {
+  try {
+    return normalizeSceneConfig(JSON.parse(fromBase64Url(encoded)));
+  } catch (err) {
+    console.warn("Ignoring malformed scene config in URL:", err);
+    return null;
+  }
+};
+
+// Reads the config from `#scene=...` or `?scene=...`, the hash taking precedence.
+// Plain greeting parameters (`?to=...&message=...`) are layered on top.
+export const readSceneConfigFromUrl = (location: Location = window.location): SceneConfig => {
+  const hashParams = new URLSearchParams(location.hash.replace(/^#/, ''));
+  const queryParams = new URLSearchParams(location.search);
+  const encoded = hashParams.get(PARAM_KEY) ?? queryParams.get(PARAM_KEY);
+
+  const config = (encoded && decodeSceneConfig(encoded)) || createDefaultSceneConfig();
+  return { ...config, greeting: { ...config.greeting, ...readGreetingParams(location) } };
+};
+
+export const buildShareUrl = (config: SceneConfig, location: Location = window.location) => {
+  const url = new URL(location.href);
+  url.searchParams.delete(PARAM_KEY);
+  // The encoded config already carries the greeting; stale plain params would override edits
+  GREETING_URL_PARAMS.forEach(param => url.searchParams.delete(param));
+  url.hash = `${PARAM_KEY}=${encodeSceneConfig(config)}`;
+  return url.toString();
+};
@@ -0,0 +1,154 @@
+import { CameraShot, ShowAction, ShowKeyframe, ShowScript, THEME, ThemePalette, TreeState } from '../types';
+import { findThemePreset, THEME_PRESETS } from './themes';
+
+export const DEFAULT_CAMERA_SHOT: CameraShot = { position: [0, 2, 22], fov: 50 };
+
+// Keyframes that set state the show can be scrubbed to; spins, drags and dust movement are one-off impulses
+const PERSISTENT_ACTIONS: ShowAction['type'][] = ['state', 'focus', 'theme', 'formation', 'camera'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+
+const isHexColor = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-fA-F]{6}$/.test(value);
+
+const isVector3 = (value: unknown): value is [number, number, number] =>
+  Array.isArray(value) && value.length === 3 && value.every(n => typeof n === 'number' && Number.isFinite(n));
+
+// Accepts either a full palette or a preset name/id, e.g. { "type": "theme", "preset": "Rose Gold" }
+const parseThemePalette = (raw: Record<string, unknown>): ThemePalette | null => {
+  if (typeof raw.preset === 'string') {
+    const key = raw.preset.toLowerCase();
+    const preset = THEME_PRESETS.find(p => p.id === key || p.name.toLowerCase() === key);
+    return preset ? preset.palette : null;
+  }
+  if (isRecord(raw.palette)) {
+    const source = raw.palette;
+    const palette = { ...THEME };
+    for (const key of Object.keys(palette) as (keyof ThemePalette)[]) {
+      const value = source[key];
+      if (isHexColor(value)) palette[key] = value;
+    }
+    return palette;
+  }
+  return null;
+};
+
+const parseAction = (action: unknown): ShowAction | null => {
+  if (!isRecord(action)) return null;
+
+  switch (action.type) {
+    case 'state': {
+      const state = Object.values(TreeState).find(value => value === action.state);
+      return state ? { type: 'state', state } : null;
+    }
+    case 'spin':
+      return typeof action.velocity === 'number' ? { type: 'spin', velocity: action.velocity } : null;
+    case 'grab':
+      if (typeof action.active !== 'boolean') return null;
+      return { type: 'grab', active: action.active, fling: action.fling === true };
+    case 'rotate':
+      return typeof action.deltaY === 'number' && typeof action.deltaX === 'number'
+        ? { type: 'rotate', deltaY: action.deltaY, deltaX: action.deltaX }
+        : null;
+    case 'attract': {
+      const { point } = action;
+      if (point === null) return { type: 'attract', point: null };
+      return isRecord(point) && typeof point.x === 'number' && typeof point.y === 'number'
+        ? { type: 'attract', point: { x: point.x, y: point.y } }
+        : null;
+    }
+    case 'focus': {
+      const { index } = action;
+      if (index === null) return { type: 'focus', index: null };
+      return typeof index === 'number' && Number.isInteger(index) && index >= 0 ? { type: 'focus', index } : null;
+    }
+    case 'theme': {
+      const palette = parseThemePalette(action);
+      return palette ? { type: 'theme', palette } : null;
+    }
+    case 'formation':
+      return typeof action.id === 'string' ? { type: 'formation', id: action.id } : null;
+    case 'camera': {
+      const shot = isRecord(action.shot) ? action.shot : action;
+      if (!isVector3(shot.position)) return null;
+      const fov = typeof shot.fov === 'number' ? shot.fov : DEFAULT_CAMERA_SHOT.fov;
+      return { type: 'camera', shot: { position: shot.position, fov } };
+    }
+    default:
+      return null;
+  }
+};
+
+// Validates a show script loaded from JSON. Unknown actions are dropped with a warning
+// rather than failing the whole script.
+export const parseShowScript = (input: unknown): ShowScript => {
+  const entries = isRecord(input) ? input.keyframes : undefined;
+  if (!isRecord(input) || !Array.isArray(entries)) {
+    throw new Error('A show script needs a "keyframes" array');
+  }
+
+  const keyframes: ShowKeyframe[] = [];
+  entries.forEach((entry: unknown, i: number) => {
+    const action = isRecord(entry) ? parseAction(entry.action) : null;
+    if (!isRecord(entry) || typeof entry.time !== 'number' || entry.time < 0 || !action) {
+      console.warn(`Skipping invalid show keyframe #${i}`, entry);
+      return;
+    }
+    keyframes.push({ time: entry.time, action });
+  });
+  keyframes.sort((a, b) => a.time - b.time);
+
+  const lastTime = keyframes.length > 0 ? keyframes[keyframes.length - 1].time : 0;
+  return {
+    name: typeof input.name === 'string' ? input.name : 'Untitled Show',
+    duration: Math.max(lastTime, typeof input.duration === 'number' ? input.duration : 0),
+    keyframes
+  };
+};
+
+// Keyframes whose time falls in (from, to]
+export const keyframesBetween = (script: ShowScript, from: number, to: number) =>
+  script.keyframes.filter(keyframe => keyframe.time > from && keyframe.time <= to);
+
+// The persistent actions in effect at `time`, used to jump the scene there when scrubbing
+export const resolveShowStateAt = (script: ShowScript, time: number): ShowAction[] => {
+  const latest = new Map<ShowAction['type'], ShowAction>();
+  script.keyframes.forEach(keyframe => {
+    if (keyframe.time <= time && PERSISTENT_ACTIONS.includes(keyframe.action.type)) {
+      latest.set(keyframe.action.type, keyframe.action);
+    }
+  });
+  return Array.from(latest.values());
+};
+
+// Scripts are saved with theme presets by name where possible, so they stay hand-editable
+export const serializeShowScript = (script: ShowScript) => JSON.stringify({
+  name: script.name,
+  duration: script.duration,
+  keyframes: script.keyframes.map(({ time, action }) => {
+    if (action.type === 'theme') {
+      const preset = findThemePreset(action.palette);
+      return { time, action: preset ? { type: 'theme', preset: preset.id } : action };
+    }
+    return { time, action };
+  })
+}, null, 2);
+
+// The sequence from the original event brief: scatter, assemble, spin, two photos, release
+export const DEMO_SHOW_SCRIPT: ShowScript = parseShowScript({
+  name: 'Grand Reveal',
+  duration: 36,
+  keyframes: [
+    { time: 0, action: { type: 'focus', index: null } },
+    { time: 0, action: { type: 'state', state: 'CHAOS' } },
+    { time: 0, action: { type: 'camera', position: [0, 2, 30], fov: 50 } },
+    { time: 3, action: { type: 'state', state: 'FORMED' } },
+    { time: 3, action: { type: 'camera', position: [0, 2, 22], fov: 50 } },
+    { time: 8, action: { type: 'spin', velocity: 0.12 } },
+    { time: 14, action: { type: 'focus', index: 3 } },
+    { time: 20, action: { type: 'focus', index: 7 } },
+    { time: 26, action: { type: 'focus', index: null } },
+    { time: 28, action: { type: 'camera', position: [6, 6, 20], fov: 45 } },
+    { time: 32, action: { type: 'state', state: 'CHAOS' } },
+    { time: 32, action: { type: 'camera', position: [0, 2, 22], fov: 50 } }
+  ]
+});
@@ -0,0 +1,65 @@
+import { THEME, ThemePalette } from '../types';
+
+export interface ThemePreset {
+  id: string;
+  name: string;
+  palette: ThemePalette;
+}
+
+// Palette roles keep their historical names: `emerald` is the foliage colour, `gold` and
+// `goldHighlight` the metallic accents, `red` the baubles and `warmWhite` the soft highlights.
+export const THEME_PRESETS: ThemePreset[] = [
+  {
+    id: 'classic-emerald',
+    name: 'Classic Emerald',
+    palette: THEME
+  },
+  {
+    id: 'silver-frost',
+    name: 'Silver Frost',
+    palette: {
+      emerald: '#1F4A5C',
+      gold: '#C0C7D0',
+      goldHighlight: '#E8F4FF',
+      red: '#4A6FA5',
+      warmWhite: '#F0F8FF'
+    }
+  },
+  {
+    id: 'rose-gold',
+    name: 'Rose Gold',
+    palette: {
+      emerald: '#4A1F2E',
+      gold: '#B76E79',
+      goldHighlight: '#F4C2C2',
+      red: '#8E2746',
+      warmWhite: '#FFF0F0'
+    }
+  },
+  {
+    id: 'midnight-blue',
+    name: 'Midnight Blue',
+    palette: {
+      emerald: '#0A1F44',
+      gold: '#D4AF37',
+      goldHighlight: '#8FB8FF',
+      red: '#2B3A67',
+      warmWhite: '#E6ECFF'
+    }
+  }
+];
+
+export const findThemePreset = (palette: ThemePalette) =>
+  THEME_PRESETS.find(preset =>
+    (Object.keys(palette) as (keyof ThemePalette)[]).every(
+      key => preset.palette[key].toLowerCase() === palette[key].toLowerCase()
+    )
+  );
+
+// Next or previous preset, wrapping; a custom palette steps to the first preset
+export const stepThemePreset = (palette: ThemePalette, direction: 1 | -1) => {
+  const current = findThemePreset(palette);
+  if (!current) return THEME_PRESETS[0];
+  const index = THEME_PRESETS.indexOf(current);
+  return THEME_PRESETS[(index + direction + THEME_PRESETS.length) % THEME_PRESETS.length];
+};
@@ -0,0 +1,27 @@
+import { WinterGround, WinterScene } from '../types';
+
+export const WINTER_GROUND_LABELS: Record<WinterGround, string> = {
+  none: 'None',
+  snow: 'Snow',
+  marble: 'Marble'
+};
+
+export const WINTER_GROUNDS = Object.keys(WINTER_GROUND_LABELS) as WinterGround[];
+
+// Off by default: the original look is a tree floating in the starfield
+export const DEFAULT_WINTER_SCENE: WinterScene = {
+  snowfall: false,
+  ground: 'none',
+  wind: 0.3
+};
+
+// Merges untrusted input over the defaults
+export const normalizeWinterScene = (input: unknown, defaults: WinterScene = DEFAULT_WINTER_SCENE): WinterScene => {
+  if (!input || typeof input !== 'object') return { ...defaults };
+  const raw = input as Record<string, unknown>;
+  return {
+    snowfall: typeof raw.snowfall === 'boolean' ? raw.snowfall : defaults.snowfall,
+    ground: WINTER_GROUNDS.includes(raw.ground as WinterGround) ? raw.ground as WinterGround : defaults.ground,
+    wind: typeof raw.wind === 'number' && Number.isFinite(raw.wind) ? Math.min(1, Math.max(0, raw.wind)) : defaults.wind
+  };
+};
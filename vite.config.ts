@@ -12,7 +12,10 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.MEDIAPIPE_ASSET_BASE': JSON.stringify(env.MEDIAPIPE_ASSET_BASE ?? ''),
+        // Versions the service worker's cache, so each deploy starts from a clean cache
+        'process.env.BUILD_ID': JSON.stringify(Date.now().toString(36))
       },
       resolve: {
         alias: {